@@ -1,9 +1,22 @@
+import type { Metadata } from "next";
 import { Header } from "@/components/header";
+import { siteConfig } from "@/lib/site";
+import { JsonLd } from "@/components/json-ld";
+import { getPersonJsonLd } from "@/lib/structured-data";
+import { getFeedAlternates } from "@/lib/feed";
+
+export const metadata: Metadata = {
+  alternates: {
+    canonical: "/about",
+    types: getFeedAlternates(),
+  },
+};
 
 export default function About() {
   return (
     <>
-      <Header />
+      <JsonLd data={getPersonJsonLd()} />
+      <Header siteName={siteConfig.name} />
       <main className="mx-auto max-w-3xl px-6 py-16 md:py-20">
         <div className="mb-10 space-y-3">
           <p className="text-[12px] font-semibold uppercase tracking-[0.3em] text-muted-foreground">
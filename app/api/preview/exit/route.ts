@@ -0,0 +1,16 @@
+import { redirect } from "next/navigation";
+import { getPostBySlug, isPostSlug } from "@/lib/posts";
+import { endPreview } from "@/lib/preview";
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const slug = searchParams.get("slug");
+
+  await endPreview();
+
+  // Stay on the post if it is already live, otherwise it would 404
+  if (slug && isPostSlug(slug) && getPostBySlug(slug)) {
+    redirect(`/blog/${encodeURIComponent(slug)}`);
+  }
+  redirect("/blog");
+}
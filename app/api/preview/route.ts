@@ -0,0 +1,31 @@
+import { redirect } from "next/navigation";
+import { getPostBySlug } from "@/lib/posts";
+import { startPreview, verifyPreviewToken } from "@/lib/preview";
+
+const messages = {
+  disabled: "Previews are not configured on this deployment.",
+  invalid: "This preview link is invalid.",
+  expired: "This preview link has expired. Ask the author for a new one.",
+};
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const slug = searchParams.get("slug");
+  const token = searchParams.get("token");
+
+  if (!slug || !token) {
+    return new Response("Missing slug or token.", { status: 400 });
+  }
+
+  const result = verifyPreviewToken(slug, token);
+  if (result !== "valid") {
+    return new Response(messages[result], { status: result === "disabled" ? 404 : 401 });
+  }
+
+  if (!getPostBySlug(slug, { includeUnpublished: true })) {
+    return new Response("Post not found.", { status: 404 });
+  }
+
+  await startPreview(token);
+  redirect(`/blog/${encodeURIComponent(slug)}`);
+}
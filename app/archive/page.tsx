@@ -1,14 +1,30 @@
+import type { Metadata } from "next";
+import { Suspense } from "react";
 import { Header } from "@/components/header";
+import { siteConfig } from "@/lib/site";
 import { ArchiveList } from "@/components/archive-list";
-import { getAllCategories, getAllPosts } from "@/lib/posts";
+import { PostRow } from "@/components/post-row";
+import { PostPagination } from "@/components/post-pagination";
+import { getAllCategories, getAllPosts, getAllTags, toPostSummary } from "@/lib/posts";
+import { getPageCount, getPageItems, getPageSize } from "@/lib/pagination";
+import { getFeedAlternates } from "@/lib/feed";
+
+export const metadata: Metadata = {
+  alternates: {
+    canonical: "/archive",
+    types: getFeedAlternates(),
+  },
+};
 
 export default function Archive() {
-  const posts = getAllPosts();
+  const posts = getAllPosts().map(toPostSummary);
   const categories = getAllCategories();
+  const tags = getAllTags();
+  const pageSize = getPageSize();
 
   return (
     <>
-      <Header />
+      <Header siteName={siteConfig.name} />
       <main className="mx-auto max-w-4xl px-6 py-16 md:py-20">
         <div className="mb-10 space-y-3">
           <p className="text-[12px] font-semibold uppercase tracking-[0.3em] text-muted-foreground">
@@ -22,7 +38,25 @@ export default function Archive() {
           </p>
         </div>
 
-        <ArchiveList posts={posts} categories={categories} />
+        {/* Filters are read from the URL in the browser; prerender the first page meanwhile */}
+        <Suspense
+          fallback={
+            <>
+              <div className="space-y-3">
+                {getPageItems(posts, 1, pageSize).map((post) => (
+                  <PostRow key={post.slug} post={post} />
+                ))}
+              </div>
+              <PostPagination
+                page={1}
+                pageCount={getPageCount(posts.length, pageSize)}
+                getHref={(page) => `/archive?page=${page}`}
+              />
+            </>
+          }
+        >
+          <ArchiveList posts={posts} categories={categories} tags={tags} pageSize={pageSize} />
+        </Suspense>
       </main>
     </>
   );
@@ -0,0 +1,8 @@
+import { createFeedResponse, getFeed } from "@/lib/feed";
+
+// Rendered once at build time and served as a static file
+export const dynamic = "force-static";
+
+export async function GET() {
+  return createFeedResponse("atom", getFeed());
+}
@@ -0,0 +1,117 @@
+import Image from "next/image";
+import Link from "next/link";
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { Header } from "@/components/header";
+import { siteConfig } from "@/lib/site";
+import { PostRow } from "@/components/post-row";
+import { JsonLd } from "@/components/json-ld";
+import { getAllPosts, getPostsByAuthor } from "@/lib/posts";
+import { getAuthor, getAuthorHref, getLinkIcon } from "@/lib/authors";
+import { formatTotalReadingTime, sumReadingMinutes } from "@/lib/reading-time";
+import { getFeedAlternates } from "@/lib/feed";
+import { getPersonJsonLd } from "@/lib/structured-data";
+
+export function generateStaticParams() {
+  const ids = new Set(getAllPosts().flatMap((post) => post.authors));
+  return Array.from(ids, (id) => ({
+    id,
+  }));
+}
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}): Promise<Metadata> {
+  const { id } = await params;
+  const author = getAuthor(id);
+
+  if (!author) return {};
+
+  return {
+    title: author.name,
+    description: author.bio,
+    alternates: {
+      canonical: getAuthorHref(author.id),
+      types: getFeedAlternates(),
+    },
+    openGraph: {
+      title: author.name,
+      description: author.bio,
+      type: "profile",
+    },
+  };
+}
+
+export default async function AuthorPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const author = getAuthor(id);
+  const posts = getPostsByAuthor(id);
+
+  if (!author || posts.length === 0) {
+    notFound();
+  }
+
+  return (
+    <>
+      <JsonLd data={getPersonJsonLd(author)} />
+      <Header siteName={siteConfig.name} />
+      <main className="mx-auto max-w-4xl px-6 py-16 md:py-20">
+        <div className="mb-10 flex flex-col gap-6 sm:flex-row sm:items-start">
+          <Image
+            src={author.avatar}
+            alt={author.name}
+            width={88}
+            height={88}
+            className="shrink-0 rounded-full object-cover"
+          />
+          <div className="space-y-3">
+            <p className="text-[12px] font-semibold uppercase tracking-[0.3em] text-muted-foreground">
+              {author.jobTitle ?? "Author"}
+            </p>
+            <h1 className="font-fraunces text-[32px] font-medium leading-tight text-foreground md:text-[48px]">
+              {author.name}
+            </h1>
+            <p className="max-w-2xl font-geist text-[16px] leading-relaxed text-muted-foreground">
+              {author.bio}
+            </p>
+            {author.links.length > 0 && (
+              <ul className="flex flex-wrap gap-4">
+                {author.links.map((link) => {
+                  const Icon = getLinkIcon(link.url);
+                  return (
+                    <li key={link.url}>
+                      <a
+                        href={link.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1.5 font-geist text-[13px] text-muted-foreground transition-colors hover:text-foreground"
+                      >
+                        <Icon className="h-3.5 w-3.5" />
+                        {link.label}
+                      </a>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+            <p className="font-geist text-[12px] text-muted-foreground">
+              {posts.length} post{posts.length === 1 ? "" : "s"} &middot;{" "}
+              {formatTotalReadingTime(sumReadingMinutes(posts))} of reading &middot;{" "}
+              <Link href="/blog" className="text-accent">
+                All posts
+              </Link>
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          {posts.map((post) => (
+            <PostRow key={post.slug} post={post} />
+          ))}
+        </div>
+      </main>
+    </>
+  );
+}
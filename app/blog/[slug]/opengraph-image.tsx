@@ -0,0 +1,33 @@
+import { notFound } from "next/navigation";
+import { getAllSlugs, getPostBySlug } from "@/lib/posts";
+import { fallbackCategoryColors, getCategory } from "@/lib/categories";
+import { getAuthors } from "@/lib/authors";
+import { formatPostDate } from "@/lib/dates";
+import { OG_IMAGE_CONTENT_TYPE, OG_IMAGE_SIZE, renderOgImage } from "@/lib/og-image";
+
+export const alt = "Post title, category and reading time";
+export const size = OG_IMAGE_SIZE;
+export const contentType = OG_IMAGE_CONTENT_TYPE;
+
+export function generateStaticParams() {
+  return getAllSlugs().map((slug) => ({
+    slug,
+  }));
+}
+
+export default function Image({ params }: { params: { slug: string } }) {
+  const { slug } = params;
+  const post = getPostBySlug(slug);
+
+  if (!post) {
+    notFound();
+  }
+
+  return renderOgImage({
+    eyebrow: post.category,
+    title: post.title,
+    details: [formatPostDate(post.date), post.readTime],
+    color: getCategory(post.category)?.colors.hex ?? fallbackCategoryColors.hex,
+    authors: getAuthors(post.authors),
+  });
+}
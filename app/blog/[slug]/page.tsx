@@ -6,14 +6,38 @@ import ReactMarkdown from "react-markdown";
 import type { Components } from "react-markdown";
 import remarkGfm from "remark-gfm";
 import rehypeHighlight from "rehype-highlight";
-import { getAllSlugs, getPostBySlug } from "@/lib/posts";
+import {
+  getAllSlugs,
+  getCanonicalUrl,
+  getPostBySlug,
+  getSeries,
+  showsUnpublishedPosts,
+} from "@/lib/posts";
+import { getPreviewUrl, hasPreviewAccess } from "@/lib/preview";
+import { getFeedAlternates } from "@/lib/feed";
+import { absoluteUrl, siteConfig } from "@/lib/site";
+import {
+  getBlogPostingJsonLd,
+  getBreadcrumbJsonLd,
+  getPostBreadcrumbs,
+} from "@/lib/structured-data";
+import { getCategory } from "@/lib/categories";
+import { getAuthorHref, getAuthors } from "@/lib/authors";
+import { remarkHeadingIds } from "@/lib/markdown";
+import { getTableOfContents } from "@/lib/toc";
 import { CategoryBadge } from "@/components/category-badge";
+import { PostStatusBadge } from "@/components/post-status-badge";
+import { PreviewBanner } from "@/components/preview-banner";
+import { PreviewShareLink } from "@/components/preview-share-link";
 import { AuthorByline } from "@/components/author-byline";
+import { TagList } from "@/components/tag-list";
 import { ReadingProgress } from "@/components/reading-progress";
 import { TableOfContents } from "@/components/table-of-contents";
 import { ShareButtons } from "@/components/share-buttons";
 import { MorePosts } from "@/components/more-posts";
+import { SeriesNav } from "@/components/series-nav";
 import { CodeBlock } from "@/components/code-block";
+import { JsonLd } from "@/components/json-ld";
 import "highlight.js/styles/github-dark.css";
 
 export function generateStaticParams() {
@@ -29,43 +53,73 @@ export async function generateMetadata({
   params: Promise<{ slug: string }>;
 }): Promise<Metadata> {
   const { slug } = await params;
-  const post = getPostBySlug(slug);
+  const isPreview = await hasPreviewAccess(slug);
+  const post = getPostBySlug(slug, isPreview ? { previewSlug: slug } : {});
 
   if (!post) return {};
 
+  const authors = getAuthors(post.authors);
+
   return {
     title: post.title,
-    description: post.content.substring(0, 160),
+    description: post.excerpt,
+    authors: authors.map((author) => ({
+      name: author.name,
+      url: getAuthorHref(author.id),
+    })),
+    alternates: {
+      canonical: getCanonicalUrl(post),
+      types: getFeedAlternates(),
+    },
     openGraph: {
       title: post.title,
-      description: post.content.substring(0, 160),
+      description: post.excerpt,
+      url: getCanonicalUrl(post),
       type: "article",
       publishedTime: post.date,
-      authors: ["Amr Mubarak"],
-      tags: [post.category],
+      modifiedTime: new Date(post.updatedAt).toISOString(),
+      authors: authors.map((author) => absoluteUrl(getAuthorHref(author.id))),
+      tags: [post.category, ...post.tags.map((tag) => tag.name)],
     },
     twitter: {
       card: "summary_large_image",
       title: post.title,
-      description: post.content.substring(0, 160),
+      description: post.excerpt,
     },
   };
 }
 
 export default async function BlogPost({ params }: { params: Promise<{ slug: string }> }) {
   const { slug } = await params;
-  const post = getPostBySlug(slug);
+  const isPreview = await hasPreviewAccess(slug);
+  // Only this post is unlocked; other drafts stay hidden from the series and related lists
+  const queryOptions = isPreview ? { previewSlug: slug } : {};
+  const post = getPostBySlug(slug, queryOptions);
 
   if (!post) {
     notFound();
   }
 
-  const postUrl = `https://amrmubarak.com/blog/${slug}`;
+  const category = getCategory(post.category);
+  const toc = getTableOfContents(post.content);
+  const series = post.series ? getSeries(post.series.slug, queryOptions) : null;
+
+  const postUrl = absoluteUrl(`/blog/${slug}`);
+  const previewUrl =
+    showsUnpublishedPosts() && post.status !== "published"
+      ? getPreviewUrl(siteConfig.url, slug)
+      : null;
 
   return (
     <>
+      {isPreview && (
+        <PreviewBanner slug={slug} status={post.status} publishAt={post.publishAt} />
+      )}
+      <JsonLd
+        data={[getBlogPostingJsonLd(post), getBreadcrumbJsonLd(getPostBreadcrumbs(post))]}
+      />
       <ReadingProgress />
-      <Header />
+      <Header siteName={siteConfig.name} />
       <main className="px-6 py-16 md:py-20">
         <div className="mx-auto max-w-6xl lg:grid lg:grid-cols-[minmax(0,1fr)_220px] lg:gap-12 xl:gap-16">
           <div className="min-w-0">
@@ -79,27 +133,40 @@ export default async function BlogPost({ params }: { params: Promise<{ slug: str
             <article>
               <header className="mb-10 space-y-6">
                 <div className="flex flex-wrap items-center gap-3 font-geist text-[12px] text-muted-foreground">
-                  <CategoryBadge category={post.category} variant="large" />
+                  {category ? (
+                    <Link href={`/blog/category/${category.slug}`} className="transition-opacity hover:opacity-80">
+                      <CategoryBadge category={post.category} variant="large" />
+                    </Link>
+                  ) : (
+                    <CategoryBadge category={post.category} variant="large" />
+                  )}
+                  <PostStatusBadge status={post.status} publishAt={post.publishAt} variant="large" />
                 </div>
                 <h1 className="text-balance font-fraunces text-[32px] font-medium leading-tight text-foreground md:text-[48px]">
                   {post.title}
                 </h1>
-                <AuthorByline date={post.date} readTime={post.readTime} />
+                <AuthorByline
+                  authors={getAuthors(post.authors)}
+                  date={post.date}
+                  readTime={post.readTime}
+                />
+                <TagList tags={post.tags} />
+                {previewUrl && <PreviewShareLink url={previewUrl} />}
               </header>
 
               <div className="prose-custom font-geist text-[17px] leading-relaxed text-foreground/92">
             <ReactMarkdown
-              remarkPlugins={[remarkGfm]}
+              remarkPlugins={[remarkGfm, remarkHeadingIds]}
               rehypePlugins={[rehypeHighlight]}
               components={
                 {
-                  h2: ({ children }: { children: React.ReactNode }) => (
-                    <h2 className="mb-4 mt-12 scroll-mt-24 font-fraunces text-[24px] font-medium leading-tight text-foreground first:mt-0">
+                  h2: ({ children, id }: { children: React.ReactNode; id?: string }) => (
+                    <h2 id={id} className="mb-4 mt-12 scroll-mt-24 font-fraunces text-[24px] font-medium leading-tight text-foreground first:mt-0">
                       {children}
                     </h2>
                   ),
-                  h3: ({ children }: { children: React.ReactNode }) => (
-                    <h3 className="mb-3 mt-10 scroll-mt-24 font-fraunces text-[20px] font-medium leading-tight text-foreground">
+                  h3: ({ children, id }: { children: React.ReactNode; id?: string }) => (
+                    <h3 id={id} className="mb-3 mt-10 scroll-mt-24 font-fraunces text-[20px] font-medium leading-tight text-foreground">
                       {children}
                     </h3>
                   ),
@@ -221,11 +288,13 @@ export default async function BlogPost({ params }: { params: Promise<{ slug: str
             </Link>
           </div>
 
-          <MorePosts currentSlug={slug} />
+          {series && <SeriesNav series={series} currentSlug={slug} />}
+
+          <MorePosts currentSlug={slug} options={queryOptions} />
         </article>
           </div>
           <aside className="hidden lg:block">
-            <TableOfContents />
+            <TableOfContents items={toc} />
           </aside>
         </div>
       </main>
@@ -0,0 +1,6 @@
+import { createFeedRoute } from "@/lib/feed";
+
+export const dynamic = "force-static";
+export const dynamicParams = false;
+
+export const { GET, generateStaticParams } = createFeedRoute("category", "json");
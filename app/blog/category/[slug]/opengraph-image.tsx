@@ -0,0 +1,37 @@
+import { notFound } from "next/navigation";
+import { getAllCategories, getPostsByCategory } from "@/lib/posts";
+import { getCategory, getCategoryBySlug } from "@/lib/categories";
+import { formatTotalReadingTime, sumReadingMinutes } from "@/lib/reading-time";
+import { OG_IMAGE_CONTENT_TYPE, OG_IMAGE_SIZE, renderOgImage } from "@/lib/og-image";
+
+export const alt = "Category name and post count";
+export const size = OG_IMAGE_SIZE;
+export const contentType = OG_IMAGE_CONTENT_TYPE;
+
+export function generateStaticParams() {
+  return getAllCategories().flatMap((name) => {
+    const category = getCategory(name);
+    return category ? [{ slug: category.slug }] : [];
+  });
+}
+
+export default function Image({ params }: { params: { slug: string } }) {
+  const { slug } = params;
+  const category = getCategoryBySlug(slug);
+
+  if (!category) {
+    notFound();
+  }
+
+  const posts = getPostsByCategory(slug);
+
+  return renderOgImage({
+    eyebrow: "Category",
+    title: category.name,
+    details: [
+      `${posts.length} post${posts.length === 1 ? "" : "s"}`,
+      `${formatTotalReadingTime(sumReadingMinutes(posts))} of reading`,
+    ],
+    color: category.colors.hex,
+  });
+}
@@ -0,0 +1,86 @@
+import Link from "next/link";
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { Header } from "@/components/header";
+import { siteConfig } from "@/lib/site";
+import { PostRow } from "@/components/post-row";
+import { FeedLinks } from "@/components/feed-links";
+import { getAllCategories, getPostsByCategory } from "@/lib/posts";
+import { getCategory, getCategoryBySlug } from "@/lib/categories";
+import { formatTotalReadingTime, sumReadingMinutes } from "@/lib/reading-time";
+import { getFeedAlternates } from "@/lib/feed";
+
+export function generateStaticParams() {
+  return getAllCategories().flatMap((name) => {
+    const category = getCategory(name);
+    return category ? [{ slug: category.slug }] : [];
+  });
+}
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ slug: string }>;
+}): Promise<Metadata> {
+  const { slug } = await params;
+  const category = getCategoryBySlug(slug);
+
+  if (!category) return {};
+
+  return {
+    title: category.name,
+    description: category.description,
+    alternates: {
+      canonical: `/blog/category/${category.slug}`,
+      types: getFeedAlternates(`/blog/category/${category.slug}`, category.name),
+    },
+  };
+}
+
+export default async function CategoryPage({ params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params;
+  const category = getCategoryBySlug(slug);
+  const posts = getPostsByCategory(slug);
+
+  if (!category || posts.length === 0) {
+    notFound();
+  }
+
+  const Icon = category.icon;
+
+  return (
+    <>
+      <Header siteName={siteConfig.name} />
+      <main className="mx-auto max-w-4xl px-6 py-16 md:py-20">
+        <div className="mb-10 space-y-3">
+          <p
+            className={`inline-flex items-center gap-2 text-[12px] font-semibold uppercase tracking-[0.3em] ${category.colors.text}`}
+          >
+            <Icon className="h-4 w-4" />
+            Category
+          </p>
+          <h1 className="font-fraunces text-[32px] font-medium leading-tight text-foreground md:text-[48px]">
+            {category.name}
+          </h1>
+          <p className="max-w-2xl font-geist text-[16px] leading-relaxed text-muted-foreground">
+            {category.description}
+          </p>
+          <p className="font-geist text-[12px] text-muted-foreground">
+            {posts.length} post{posts.length === 1 ? "" : "s"} &middot;{" "}
+            {formatTotalReadingTime(sumReadingMinutes(posts))} of reading &middot;{" "}
+            <Link href="/blog" className="text-accent">
+              All posts
+            </Link>{" "}
+            &middot; <FeedLinks basePath={`/blog/category/${category.slug}`} />
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          {posts.map((post) => (
+            <PostRow key={post.slug} post={post} showCategory={false} />
+          ))}
+        </div>
+      </main>
+    </>
+  );
+}
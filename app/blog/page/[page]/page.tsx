@@ -0,0 +1,46 @@
+import type { Metadata } from "next";
+import { notFound, permanentRedirect } from "next/navigation";
+import { BlogIndex } from "@/components/blog-index";
+import { getAllPosts } from "@/lib/posts";
+import { getBlogPageHref, getPageCount, getPageSize, parsePageNumber } from "@/lib/pagination";
+import { getFeedAlternates } from "@/lib/feed";
+
+// Only the pages that exist at build time are served
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  const pageCount = getPageCount(getAllPosts().length, getPageSize());
+  return Array.from({ length: pageCount }, (_, i) => ({
+    page: String(i + 1),
+  }));
+}
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ page: string }>;
+}): Promise<Metadata> {
+  const { page } = await params;
+
+  return {
+    title: `Blog · Page ${page}`,
+    alternates: {
+      canonical: getBlogPageHref(parsePageNumber(page) ?? 1),
+      types: getFeedAlternates(),
+    },
+  };
+}
+
+export default async function BlogPageNumber({ params }: { params: Promise<{ page: string }> }) {
+  const { page: rawPage } = await params;
+  const page = parsePageNumber(rawPage);
+
+  if (!page) {
+    notFound();
+  }
+  if (page === 1) {
+    permanentRedirect("/blog");
+  }
+
+  return <BlogIndex page={page} />;
+}
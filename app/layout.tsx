@@ -6,6 +6,8 @@ import { Analytics } from "@vercel/analytics/next";
 import { Suspense } from "react";
 import { ThemeProvider } from "@/components/theme-provider";
 import { Footer } from "@/components/footer";
+import { getFeedAlternates } from "@/lib/feed";
+import { siteConfig } from "@/lib/site";
 import "./globals.css";
 
 const fraunces = Fraunces({
@@ -31,26 +33,26 @@ const jetbrainsMono = JetBrains_Mono({
 
 export const metadata: Metadata = {
   title: {
-    default: "Amr Mubarak — Thoughts on Engineering",
-    template: "%s — Amr Mubarak",
+    default: siteConfig.title,
+    template: `%s — ${siteConfig.name}`,
+  },
+  description: siteConfig.description,
+  metadataBase: new URL(siteConfig.url),
+  alternates: {
+    types: getFeedAlternates(),
   },
-  description:
-    "Technical writing on distributed systems, databases, and software engineering",
-  metadataBase: new URL("https://amrmubarak.com"),
   openGraph: {
-    title: "Amr Mubarak — Thoughts on Engineering",
-    description:
-      "Technical writing on distributed systems, databases, and software engineering",
-    url: "https://amrmubarak.com",
-    siteName: "Amr Mubarak",
+    title: siteConfig.title,
+    description: siteConfig.description,
+    url: siteConfig.url,
+    siteName: siteConfig.name,
     locale: "en_US",
     type: "website",
   },
   twitter: {
     card: "summary_large_image",
-    title: "Amr Mubarak — Thoughts on Engineering",
-    description:
-      "Technical writing on distributed systems, databases, and software engineering",
+    title: siteConfig.title,
+    description: siteConfig.description,
   },
   robots: {
     index: true,
@@ -0,0 +1,17 @@
+import { getAllPosts } from "@/lib/posts";
+import { OG_IMAGE_CONTENT_TYPE, OG_IMAGE_SIZE, renderOgImage } from "@/lib/og-image";
+import { siteConfig } from "@/lib/site";
+
+export const alt = siteConfig.title;
+export const size = OG_IMAGE_SIZE;
+export const contentType = OG_IMAGE_CONTENT_TYPE;
+
+export default function Image() {
+  const count = getAllPosts({ includeUnpublished: false }).length;
+
+  return renderOgImage({
+    eyebrow: "Engineering Notes",
+    title: "Practical writing on distributed systems, databases, and reliability.",
+    details: [`${count} post${count === 1 ? "" : "s"}`],
+  });
+}
@@ -1,14 +1,29 @@
 import Link from "next/link";
+import type { Metadata } from "next";
 import { Header } from "@/components/header";
-import { Github, Linkedin, Mail, ArrowUpRight, Twitter } from "lucide-react";
+import { Mail, ArrowUpRight } from "lucide-react";
 import { getAllPosts } from "@/lib/posts";
+import { formatPostDate } from "@/lib/dates";
+import { PostStatusBadge } from "@/components/post-status-badge";
+import { JsonLd } from "@/components/json-ld";
+import { getWebSiteJsonLd } from "@/lib/structured-data";
+import { siteConfig } from "@/lib/site";
+import { getFeedAlternates } from "@/lib/feed";
+
+export const metadata: Metadata = {
+  alternates: {
+    canonical: "/",
+    types: getFeedAlternates(),
+  },
+};
 
 export default function Home() {
   const posts = getAllPosts().slice(0, 3);
 
   return (
     <>
-      <Header />
+      <JsonLd data={getWebSiteJsonLd()} />
+      <Header siteName={siteConfig.name} />
       <main className="mx-auto max-w-6xl px-6 py-16 md:py-20">
         <section className="grid gap-12 lg:grid-cols-[1.3fr_0.7fr]">
           <div>
@@ -68,52 +83,33 @@ export default function Home() {
                 Connect
               </h2>
               <div className="mt-4 space-y-3">
-                <a
-                  href="https://x.com/AmrAMubarak/"
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="group flex items-center justify-between font-geist text-[16px] text-foreground transition-colors hover:text-accent"
-                >
-                  <span className="flex items-center gap-2">
-                    <Twitter className="h-4 w-4" />
-                    Twitter / X
-                  </span>
-                  <ArrowUpRight className="h-4 w-4 opacity-0 transition-opacity group-hover:opacity-100" />
-                </a>
-                <a
-                  href="https://github.com/amrrdev"
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="group flex items-center justify-between font-geist text-[16px] text-foreground transition-colors hover:text-accent"
-                >
-                  <span className="flex items-center gap-2">
-                    <Github className="h-4 w-4" />
-                    GitHub
-                  </span>
-                  <ArrowUpRight className="h-4 w-4 opacity-0 transition-opacity group-hover:opacity-100" />
-                </a>
-                <a
-                  href="https://linkedin.com/in/amramubarak"
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="group flex items-center justify-between font-geist text-[16px] text-foreground transition-colors hover:text-accent"
-                >
-                  <span className="flex items-center gap-2">
-                    <Linkedin className="h-4 w-4" />
-                    LinkedIn
-                  </span>
-                  <ArrowUpRight className="h-4 w-4 opacity-0 transition-opacity group-hover:opacity-100" />
-                </a>
-                <a
-                  href="mailto:amrrdev@gmail.com"
-                  className="group flex items-center justify-between font-geist text-[16px] text-foreground transition-colors hover:text-accent"
-                >
-                  <span className="flex items-center gap-2">
-                    <Mail className="h-4 w-4" />
-                    Email
-                  </span>
-                  <ArrowUpRight className="h-4 w-4 opacity-0 transition-opacity group-hover:opacity-100" />
-                </a>
+                {siteConfig.socials.map((social) => (
+                  <a
+                    key={social.url}
+                    href={social.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="group flex items-center justify-between font-geist text-[16px] text-foreground transition-colors hover:text-accent"
+                  >
+                    <span className="flex items-center gap-2">
+                      <social.icon className="h-4 w-4" />
+                      {social.label}
+                    </span>
+                    <ArrowUpRight className="h-4 w-4 opacity-0 transition-opacity group-hover:opacity-100" />
+                  </a>
+                ))}
+                {siteConfig.author.email && (
+                  <a
+                    href={`mailto:${siteConfig.author.email}`}
+                    className="group flex items-center justify-between font-geist text-[16px] text-foreground transition-colors hover:text-accent"
+                  >
+                    <span className="flex items-center gap-2">
+                      <Mail className="h-4 w-4" />
+                      Email
+                    </span>
+                    <ArrowUpRight className="h-4 w-4 opacity-0 transition-opacity group-hover:opacity-100" />
+                  </a>
+                )}
               </div>
             </div>
           </div>
@@ -133,19 +129,18 @@ export default function Home() {
               <article key={post.slug} className="group">
                 <Link href={`/blog/${post.slug}`} className="block">
                   <div className="h-full border border-border p-6 transition-colors duration-200 hover:bg-accent/[0.02]">
-                    <div className="mb-3 text-[12px] text-muted-foreground">
-                      {new Date(post.date).toLocaleDateString("en-US", {
-                        year: "numeric",
-                        month: "short",
-                        day: "numeric",
-                      })}{" "}
-                      &middot; {post.readTime}
+                    <div className="mb-3 flex flex-wrap items-center gap-2 text-[12px] text-muted-foreground">
+                      <span>
+                        <time dateTime={post.date}>{formatPostDate(post.date)}</time>{" "}
+                        &middot; {post.readTime}
+                      </span>
+                      <PostStatusBadge status={post.status} publishAt={post.publishAt} />
                     </div>
                     <h3 className="mb-2 font-fraunces text-[22px] font-medium leading-snug text-foreground">
                       {post.title}
                     </h3>
-                    <p className="font-geist text-[14px] leading-relaxed text-muted-foreground/85">
-                      {post.content.substring(0, 120)}...
+                    <p className="line-clamp-3 font-geist text-[14px] leading-relaxed text-muted-foreground/85">
+                      {post.excerpt}
                     </p>
                   </div>
                 </Link>
@@ -0,0 +1,16 @@
+import type { MetadataRoute } from "next";
+import { getRootSitemapUrl } from "@/lib/sitemap";
+import { siteConfig } from "@/lib/site";
+
+export default function robots(): MetadataRoute.Robots {
+  return {
+    rules: {
+      userAgent: "*",
+      allow: "/",
+      // Preview and draft-mode endpoints
+      disallow: "/api/",
+    },
+    sitemap: getRootSitemapUrl(),
+    host: siteConfig.url,
+  };
+}
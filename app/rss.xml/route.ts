@@ -1,49 +1,8 @@
-import { getAllPosts } from "@/lib/posts";
+import { createFeedResponse, getFeed } from "@/lib/feed";
 
-export async function GET() {
-  const posts = getAllPosts();
-  const siteUrl = "https://amrmubarak.com";
-
-  const items = posts
-    .map(
-      (post) => `
-    <item>
-      <title>${escapeXml(post.title)}</title>
-      <link>${siteUrl}/blog/${post.slug}</link>
-      <guid>${siteUrl}/blog/${post.slug}</guid>
-      <pubDate>${new Date(post.date).toUTCString()}</pubDate>
-      <category>${escapeXml(post.category)}</category>
-      <description>${escapeXml(post.content.substring(0, 200))}</description>
-    </item>`
-    )
-    .join("\n");
-
-  const xml = `<?xml version="1.0" encoding="UTF-8"?>
-<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
-  <channel>
-    <title>Amr Mubarak - Thoughts on Engineering</title>
-    <link>${siteUrl}</link>
-    <description>Technical writing on distributed systems, databases, and software engineering</description>
-    <language>en-us</language>
-    <lastBuildDate>${new Date().toUTCString()}</lastBuildDate>
-    <atom:link href="${siteUrl}/rss.xml" rel="self" type="application/rss+xml"/>
-    ${items}
-  </channel>
-</rss>`;
+// Rendered once at build time and served as a static file
+export const dynamic = "force-static";
 
-  return new Response(xml, {
-    headers: {
-      "Content-Type": "application/xml; charset=utf-8",
-      "Cache-Control": "public, max-age=3600, s-maxage=3600",
-    },
-  });
-}
-
-function escapeXml(str: string): string {
-  return str
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;")
-    .replace(/'/g, "&apos;");
+export async function GET() {
+  return createFeedResponse("rss", getFeed());
 }
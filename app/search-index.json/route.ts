@@ -0,0 +1,15 @@
+import { getAllPosts } from "@/lib/posts";
+import { buildSearchIndex } from "@/lib/search-index";
+
+// Rendered once at build time and served as a static file
+export const dynamic = "force-static";
+
+export async function GET() {
+  const index = buildSearchIndex(getAllPosts());
+
+  return Response.json(index, {
+    headers: {
+      "Cache-Control": "public, max-age=3600, s-maxage=3600",
+    },
+  });
+}
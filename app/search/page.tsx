@@ -0,0 +1,54 @@
+import type { Metadata } from "next";
+import { Suspense } from "react";
+import { Header } from "@/components/header";
+import { siteConfig } from "@/lib/site";
+import { SearchResults } from "@/components/search-results";
+import { getAllCategories, getAllPosts, getAllTags, toPostSummary } from "@/lib/posts";
+import { getPageSize } from "@/lib/pagination";
+import { getFeedAlternates } from "@/lib/feed";
+
+export const metadata: Metadata = {
+  title: "Search",
+  description: "Search every post by title, heading, tag or full text.",
+  alternates: {
+    canonical: "/search",
+    types: getFeedAlternates(),
+  },
+  // Result pages are endless URL combinations of the same content
+  robots: {
+    index: false,
+    follow: true,
+  },
+};
+
+export default function SearchPage() {
+  const posts = getAllPosts().map(toPostSummary);
+  const categories = getAllCategories();
+  const tags = getAllTags();
+
+  return (
+    <>
+      <Header siteName={siteConfig.name} />
+      <main className="mx-auto max-w-4xl px-6 py-16 md:py-20">
+        <div className="mb-10 space-y-3">
+          <p className="text-[12px] font-semibold uppercase tracking-[0.3em] text-muted-foreground">
+            Search
+          </p>
+          <h1 className="font-fraunces text-[32px] font-medium leading-tight text-foreground md:text-[48px]">
+            Find a post.
+          </h1>
+        </div>
+
+        {/* Query state lives in the URL, which is only known in the browser */}
+        <Suspense fallback={null}>
+          <SearchResults
+            posts={posts}
+            categories={categories}
+            tags={tags}
+            pageSize={getPageSize()}
+          />
+        </Suspense>
+      </main>
+    </>
+  );
+}
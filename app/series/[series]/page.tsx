@@ -0,0 +1,92 @@
+import Link from "next/link";
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { Header } from "@/components/header";
+import { siteConfig } from "@/lib/site";
+import { CategoryBadge } from "@/components/category-badge";
+import { PostStatusBadge } from "@/components/post-status-badge";
+import { getAllSeries, getSeries } from "@/lib/posts";
+import { formatPostDate } from "@/lib/dates";
+import { formatTotalReadingTime, sumReadingMinutes } from "@/lib/reading-time";
+import { getFeedAlternates } from "@/lib/feed";
+
+export function generateStaticParams() {
+  return getAllSeries().map((series) => ({
+    series: series.slug,
+  }));
+}
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ series: string }>;
+}): Promise<Metadata> {
+  const { series: slug } = await params;
+  const series = getSeries(slug);
+
+  if (!series) return {};
+
+  return {
+    title: series.name,
+    description: `All ${series.posts.length} parts of "${series.name}", in reading order.`,
+    alternates: {
+      canonical: `/series/${series.slug}`,
+      types: getFeedAlternates(),
+    },
+  };
+}
+
+export default async function SeriesPage({ params }: { params: Promise<{ series: string }> }) {
+  const { series: slug } = await params;
+  const series = getSeries(slug);
+
+  if (!series) {
+    notFound();
+  }
+
+  return (
+    <>
+      <Header siteName={siteConfig.name} />
+      <main className="mx-auto max-w-4xl px-6 py-16 md:py-20">
+        <div className="mb-10 space-y-3">
+          <p className="text-[12px] font-semibold uppercase tracking-[0.3em] text-muted-foreground">
+            Series
+          </p>
+          <h1 className="font-fraunces text-[32px] font-medium leading-tight text-foreground md:text-[48px]">
+            {series.name}
+          </h1>
+          <p className="max-w-2xl font-geist text-[16px] leading-relaxed text-muted-foreground">
+            {series.posts.length} parts &middot;{" "}
+            {formatTotalReadingTime(sumReadingMinutes(series.posts))} of reading, best read in order.
+          </p>
+        </div>
+
+        <ol className="space-y-3">
+          {series.posts.map((post) => (
+            <li key={post.slug}>
+              <Link href={`/blog/${post.slug}`} className="group block">
+                <article className="rounded-[8px] border border-border bg-card p-5 transition-colors hover:bg-accent/[0.02]">
+                  <div className="mb-2 flex flex-wrap items-center gap-3 font-geist text-[12px] text-muted-foreground">
+                    <span className="font-semibold uppercase tracking-[0.2em]">Part {post.series.order}</span>
+                    <span className="text-border">|</span>
+                    <CategoryBadge category={post.category} />
+                    <PostStatusBadge status={post.status} publishAt={post.publishAt} />
+                    <span className="text-border">|</span>
+                    <time className="font-medium" dateTime={post.date}>
+                      {formatPostDate(post.date)}
+                    </time>
+                    <span className="text-border">|</span>
+                    <span>{post.readTime}</span>
+                  </div>
+                  <h2 className="font-geist text-[17px] font-medium text-foreground transition-colors group-hover:text-accent">
+                    {post.title}
+                  </h2>
+                </article>
+              </Link>
+            </li>
+          ))}
+        </ol>
+      </main>
+    </>
+  );
+}
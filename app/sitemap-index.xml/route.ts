@@ -0,0 +1,32 @@
+import { notFound } from "next/navigation";
+import { getSitemapCount, getSitemapUrl } from "@/lib/sitemap";
+
+// Rendered once at build time and served as a static file
+export const dynamic = "force-static";
+
+export async function GET() {
+  const count = getSitemapCount();
+  // Until the sitemap is split, /sitemap.xml is the only one
+  if (count <= 1) {
+    notFound();
+  }
+
+  const sitemaps = Array.from(
+    { length: count },
+    (_, id) => `  <sitemap>
+    <loc>${getSitemapUrl(id)}</loc>
+  </sitemap>`
+  ).join("\n");
+
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${sitemaps}
+</sitemapindex>`;
+
+  return new Response(xml, {
+    headers: {
+      "Content-Type": "application/xml; charset=utf-8",
+      "Cache-Control": "public, max-age=3600, s-maxage=3600",
+    },
+  });
+}
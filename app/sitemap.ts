@@ -0,0 +1,7 @@
+import type { MetadataRoute } from "next";
+import { getSitemapCount, getSitemapEntries } from "@/lib/sitemap";
+
+export default function sitemap(): MetadataRoute.Sitemap {
+  // Past the URL limit the entries move to the files listed by /sitemap-index.xml
+  return getSitemapCount() > 1 ? [] : getSitemapEntries();
+}
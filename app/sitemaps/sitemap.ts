@@ -0,0 +1,18 @@
+import type { MetadataRoute } from "next";
+import { SITEMAP_URL_LIMIT, getSitemapCount, getSitemapEntries } from "@/lib/sitemap";
+
+export const dynamicParams = false;
+
+// Files of at most SITEMAP_URL_LIMIT URLs (served as /sitemaps/sitemap/<id>.xml),
+// all listed by the index at /sitemap-index.xml. They live in their own segment
+// because exporting generateSitemaps from app/sitemap.ts would take /sitemap.xml
+// away, and that single file is all a smaller site needs.
+export function generateSitemaps() {
+  const count = getSitemapCount();
+  return count > 1 ? Array.from({ length: count }, (_, id) => ({ id })) : [];
+}
+
+export default function sitemap({ id }: { id: number }): MetadataRoute.Sitemap {
+  const start = Number(id) * SITEMAP_URL_LIMIT;
+  return getSitemapEntries().slice(start, start + SITEMAP_URL_LIMIT);
+}
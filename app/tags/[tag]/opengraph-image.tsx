@@ -0,0 +1,40 @@
+import { notFound } from "next/navigation";
+import { getAllTags, getPostsByTag } from "@/lib/posts";
+import { fallbackCategoryColors, getCategory } from "@/lib/categories";
+import { OG_IMAGE_CONTENT_TYPE, OG_IMAGE_SIZE, renderOgImage } from "@/lib/og-image";
+
+export const alt = "Tag name and post count";
+export const size = OG_IMAGE_SIZE;
+export const contentType = OG_IMAGE_CONTENT_TYPE;
+
+export function generateStaticParams() {
+  return getAllTags().map((tag) => ({
+    tag: tag.slug,
+  }));
+}
+
+// Tags have no color of their own, so they borrow the one of the category they appear in most
+function getTagColor(slug: string): string {
+  const counts = new Map<string, number>();
+  for (const post of getPostsByTag(slug)) {
+    counts.set(post.category, (counts.get(post.category) ?? 0) + 1);
+  }
+  const [top] = Array.from(counts).sort((a, b) => b[1] - a[1]);
+  return (top && getCategory(top[0])?.colors.hex) ?? fallbackCategoryColors.hex;
+}
+
+export default function Image({ params }: { params: { tag: string } }) {
+  const { tag: slug } = params;
+  const tag = getAllTags().find((summary) => summary.slug === slug);
+
+  if (!tag) {
+    notFound();
+  }
+
+  return renderOgImage({
+    eyebrow: "Tag",
+    title: `#${tag.name}`,
+    details: [`${tag.count} post${tag.count === 1 ? "" : "s"}`],
+    color: getTagColor(slug),
+  });
+}
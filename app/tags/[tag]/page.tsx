@@ -0,0 +1,81 @@
+import Link from "next/link";
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { Header } from "@/components/header";
+import { siteConfig } from "@/lib/site";
+import { PostRow } from "@/components/post-row";
+import { FeedLinks } from "@/components/feed-links";
+import { getAllTags, getPostsByTag } from "@/lib/posts";
+import { getFeedAlternates } from "@/lib/feed";
+
+export function generateStaticParams() {
+  return getAllTags().map((tag) => ({
+    tag: tag.slug,
+  }));
+}
+
+function findTag(slug: string) {
+  return getAllTags().find((tag) => tag.slug === slug) ?? null;
+}
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ tag: string }>;
+}): Promise<Metadata> {
+  const { tag: slug } = await params;
+  const tag = findTag(slug);
+
+  if (!tag) return {};
+
+  return {
+    title: `#${tag.name}`,
+    description: `${tag.count} post${tag.count === 1 ? "" : "s"} tagged ${tag.name}.`,
+    alternates: {
+      canonical: `/tags/${tag.slug}`,
+      types: getFeedAlternates(`/tags/${tag.slug}`, `#${tag.name}`),
+    },
+  };
+}
+
+export default async function TagPage({ params }: { params: Promise<{ tag: string }> }) {
+  const { tag: slug } = await params;
+  const tag = findTag(slug);
+
+  if (!tag) {
+    notFound();
+  }
+
+  const posts = getPostsByTag(slug);
+
+  return (
+    <>
+      <Header siteName={siteConfig.name} />
+      <main className="mx-auto max-w-4xl px-6 py-16 md:py-20">
+        <div className="mb-10 space-y-3">
+          <p className="text-[12px] font-semibold uppercase tracking-[0.3em] text-muted-foreground">
+            Tag
+          </p>
+          <h1 className="font-fraunces text-[32px] font-medium leading-tight text-foreground md:text-[48px]">
+            #{tag.name}
+          </h1>
+          <p className="max-w-2xl font-geist text-[16px] leading-relaxed text-muted-foreground">
+            {posts.length} post{posts.length === 1 ? "" : "s"} tagged {tag.name}.{" "}
+            <Link href="/archive" className="text-accent">
+              Browse the full archive
+            </Link>
+          </p>
+          <p className="font-geist text-[12px] text-muted-foreground">
+            <FeedLinks basePath={`/tags/${tag.slug}`} />
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          {posts.map((post) => (
+            <PostRow key={post.slug} post={post} />
+          ))}
+        </div>
+      </main>
+    </>
+  );
+}
@@ -1,41 +1,51 @@
 "use client";
 
 import Link from "next/link";
-import { useState } from "react";
 import { CategoryBadge } from "@/components/category-badge";
-import type { Post } from "@/lib/posts";
+import { PostStatusBadge } from "@/components/post-status-badge";
+import { TagFilter } from "@/components/tag-filter";
+import { SearchSnippet } from "@/components/search-snippet";
+import { PostPagination } from "@/components/post-pagination";
+import type { PostSummary, TagSummary } from "@/lib/posts";
+import { usePostFilters } from "@/hooks/use-post-filters";
+import { formatTotalReadingTime, sumReadingMinutes } from "@/lib/reading-time";
+import { formatPostDate, getPostYear } from "@/lib/dates";
 import { Search, X } from "lucide-react";
 
 interface ArchiveListProps {
-  posts: Post[];
+  posts: PostSummary[];
   categories: string[];
+  tags: TagSummary[];
+  pageSize: number;
 }
 
-export function ArchiveList({ posts, categories }: ArchiveListProps) {
-  const [selectedCategory, setSelectedCategory] = useState("all");
-  const [query, setQuery] = useState("");
+export function ArchiveList({ posts, categories, tags, pageSize }: ArchiveListProps) {
+  const {
+    query,
+    setQuery,
+    selectedCategory,
+    setSelectedCategory,
+    selectedTag,
+    setSelectedTag,
+    tagCounts,
+    results: filteredPosts,
+    pageResults,
+    page,
+    pageCount,
+    getQueryPageHref,
+    matches,
+  } = usePostFilters(posts, { pageSize });
 
-  const normalizedQuery = query.trim().toLowerCase();
-  const categoryFiltered =
-    selectedCategory === "all" ? posts : posts.filter((post) => post.category === selectedCategory);
-  const filteredPosts = categoryFiltered.filter((post) => {
-    if (!normalizedQuery) {
-      return true;
-    }
-    const haystack = `${post.title} ${post.category} ${post.content}`.toLowerCase();
-    return haystack.includes(normalizedQuery);
-  });
-
-  const postsByYear = filteredPosts.reduce(
+  const postsByYear = pageResults.reduce(
     (acc, post) => {
-      const year = new Date(post.date).getFullYear();
+      const year = getPostYear(post.date);
       if (!acc[year]) {
         acc[year] = [];
       }
       acc[year].push(post);
       return acc;
     },
-    {} as Record<number, Post[]>
+    {} as Record<number, PostSummary[]>
   );
 
   const years = Object.keys(postsByYear).sort((a, b) => Number(b) - Number(a));
@@ -88,9 +98,12 @@ export function ArchiveList({ posts, categories }: ArchiveListProps) {
             }`}
           >
             All ({posts.length})
+            <span className="ml-1.5 opacity-70">
+              &middot; {formatTotalReadingTime(sumReadingMinutes(posts))}
+            </span>
           </button>
           {categories.map((category) => {
-            const count = posts.filter((p) => p.category === category).length;
+            const categoryPosts = posts.filter((p) => p.category === category);
             const isSelected = selectedCategory === category;
 
             return (
@@ -103,11 +116,21 @@ export function ArchiveList({ posts, categories }: ArchiveListProps) {
                     : "border-border bg-transparent text-muted-foreground hover:border-accent/30 hover:bg-accent/10 hover:text-accent"
                 }`}
               >
-                {category} ({count})
+                {category} ({categoryPosts.length})
+                <span className="ml-1.5 opacity-70">
+                  &middot; {formatTotalReadingTime(sumReadingMinutes(categoryPosts))}
+                </span>
               </button>
             );
           })}
         </div>
+
+        <TagFilter
+          tags={tags}
+          counts={tagCounts}
+          selectedTag={selectedTag}
+          onTagChange={setSelectedTag}
+        />
       </div>
 
       {years.length === 0 ? (
@@ -122,34 +145,46 @@ export function ArchiveList({ posts, categories }: ArchiveListProps) {
                 {year}
               </h2>
               <div className="space-y-3">
-                {postsByYear[Number(year)].map((post) => (
-                  <article key={post.slug}>
-                    <Link href={`/blog/${post.slug}`} className="group block">
-                      <div className="rounded-[8px] border border-border bg-card p-5 transition-colors hover:bg-accent/[0.02]">
-                        <div className="mb-2 flex flex-wrap items-center gap-3 font-geist text-[12px] text-muted-foreground">
-                          <CategoryBadge category={post.category} />
-                          <span className="text-border">|</span>
-                          <time className="font-medium" dateTime={post.date}>
-                            {new Date(post.date).toLocaleDateString("en-US", {
-                              month: "short",
-                              day: "numeric",
-                            })}
-                          </time>
-                          <span className="text-border">|</span>
-                          <span>{post.readTime}</span>
+                {postsByYear[Number(year)].map((post) => {
+                  const match = matches.get(post.slug);
+
+                  return (
+                    <article key={post.slug}>
+                      <Link
+                        href={match?.anchor ? `/blog/${post.slug}#${match.anchor}` : `/blog/${post.slug}`}
+                        className="group block"
+                      >
+                        <div className="rounded-[8px] border border-border bg-card p-5 transition-colors hover:bg-accent/[0.02]">
+                          <div className="mb-2 flex flex-wrap items-center gap-3 font-geist text-[12px] text-muted-foreground">
+                            <CategoryBadge category={post.category} />
+                            <PostStatusBadge status={post.status} publishAt={post.publishAt} />
+                            <span className="text-border">|</span>
+                            <time className="font-medium" dateTime={post.date}>
+                              {formatPostDate(post.date, { month: "short", day: "numeric" })}
+                            </time>
+                            <span className="text-border">|</span>
+                            <span>{post.readTime}</span>
+                          </div>
+                          <h2 className="font-geist text-[17px] font-medium text-foreground transition-colors group-hover:text-accent">
+                            {post.title}
+                          </h2>
+                          {match?.snippet ? (
+                            <p className="mt-2 font-geist text-[14px] leading-relaxed text-muted-foreground/90">
+                              <SearchSnippet segments={match.snippet} />
+                            </p>
+                          ) : null}
                         </div>
-                        <h2 className="font-geist text-[17px] font-medium text-foreground transition-colors group-hover:text-accent">
-                          {post.title}
-                        </h2>
-                      </div>
-                    </Link>
-                  </article>
-                ))}
+                      </Link>
+                    </article>
+                  );
+                })}
               </div>
             </div>
           ))}
         </div>
       )}
+
+      <PostPagination page={page} pageCount={pageCount} getHref={getQueryPageHref} />
     </>
   );
 }
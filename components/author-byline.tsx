@@ -1,28 +1,44 @@
+import { Fragment } from "react";
 import Image from "next/image";
+import Link from "next/link";
+import { formatPostDate } from "@/lib/dates";
+import { getAuthorHref, type Author } from "@/lib/authors";
 
 interface AuthorBylineProps {
+  authors: Author[];
   date: string;
   readTime: string;
 }
 
-export function AuthorByline({ date, readTime }: AuthorBylineProps) {
+export function AuthorByline({ authors, date, readTime }: AuthorBylineProps) {
   return (
     <div className="flex items-center gap-3.5">
-      <Image
-        src="/author.png"
-        alt="Amr Mubarak"
-        width={40}
-        height={40}
-        className="rounded-full object-cover"
-      />
+      <div className="flex shrink-0 -space-x-2.5">
+        {authors.map((author) => (
+          <Link key={author.id} href={getAuthorHref(author.id)} className="relative">
+            <Image
+              src={author.avatar}
+              alt={author.name}
+              width={40}
+              height={40}
+              className="rounded-full object-cover ring-2 ring-background"
+            />
+          </Link>
+        ))}
+      </div>
       <div>
-        <p className="font-geist text-[14px] font-medium text-foreground">Amr Mubarak</p>
+        <p className="font-geist text-[14px] font-medium text-foreground">
+          {authors.map((author, i) => (
+            <Fragment key={author.id}>
+              {i > 0 && (i === authors.length - 1 ? " and " : ", ")}
+              <Link href={getAuthorHref(author.id)} className="transition-colors hover:text-accent">
+                {author.name}
+              </Link>
+            </Fragment>
+          ))}
+        </p>
         <p className="font-geist text-[12px] text-muted-foreground">
-          {new Date(date).toLocaleDateString("en-US", {
-            year: "numeric",
-            month: "short",
-            day: "numeric",
-          })}{" "}
+          <time dateTime={date}>{formatPostDate(date)}</time>{" "}
           &middot; {readTime}
         </p>
       </div>
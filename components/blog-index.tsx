@@ -0,0 +1,65 @@
+import { Suspense } from "react";
+import { BlogList } from "@/components/blog-list";
+import { PostRow } from "@/components/post-row";
+import { PostPagination } from "@/components/post-pagination";
+import { Header } from "@/components/header";
+import { siteConfig } from "@/lib/site";
+import { getAllPosts, getAllCategories, getAllTags, toPostSummary } from "@/lib/posts";
+import { getBlogPageHref, getPageCount, getPageItems, getPageSize } from "@/lib/pagination";
+
+interface BlogIndexProps {
+  page: number;
+}
+
+/** The blog index shared by `/blog` and the statically generated `/blog/page/[n]` routes. */
+export function BlogIndex({ page }: BlogIndexProps) {
+  const posts = getAllPosts().map(toPostSummary);
+  const categories = getAllCategories();
+  const tags = getAllTags();
+  const pageSize = getPageSize();
+  const pageCount = getPageCount(posts.length, pageSize);
+
+  return (
+    <>
+      {/* React hoists these into <head> */}
+      {page > 1 ? <link rel="prev" href={getBlogPageHref(page - 1)} /> : null}
+      {page < pageCount ? <link rel="next" href={getBlogPageHref(page + 1)} /> : null}
+      <Header siteName={siteConfig.name} />
+      <main className="mx-auto max-w-4xl px-6 py-16 md:py-20">
+        <div className="mb-12 space-y-4">
+          <p className="text-[12px] font-semibold uppercase tracking-[0.3em] text-muted-foreground">
+            The Blog{page > 1 ? ` · Page ${page} of ${pageCount}` : ""}
+          </p>
+          <h1 className="font-fraunces text-[32px] font-medium leading-tight text-foreground md:text-[48px]">
+            Writing on systems that need to stay up.
+          </h1>
+          <p className="max-w-2xl font-geist text-[17px] leading-relaxed text-muted-foreground">
+            Notes on databases, distributed systems, and the engineering habits that keep software
+            dependable in production.
+          </p>
+        </div>
+        {/* Filters are read from the URL in the browser; prerender the plain page meanwhile */}
+        <Suspense
+          fallback={
+            <>
+              <div className="space-y-3">
+                {getPageItems(posts, page, pageSize).map((post) => (
+                  <PostRow key={post.slug} post={post} />
+                ))}
+              </div>
+              <PostPagination page={page} pageCount={pageCount} getHref={getBlogPageHref} />
+            </>
+          }
+        >
+          <BlogList
+            posts={posts}
+            categories={categories}
+            tags={tags}
+            pageSize={pageSize}
+            page={page}
+          />
+        </Suspense>
+      </main>
+    </>
+  );
+}
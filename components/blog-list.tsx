@@ -2,32 +2,48 @@
 
 import Link from "next/link";
 import { CategoryBadge } from "./category-badge";
-import { useState } from "react";
-import type { Post } from "@/lib/posts";
+import { PostStatusBadge } from "./post-status-badge";
+import { TagFilter } from "./tag-filter";
+import { SearchSnippet } from "./search-snippet";
+import { PostPagination } from "./post-pagination";
+import type { PostSummary, TagSummary } from "@/lib/posts";
+import { usePostFilters } from "@/hooks/use-post-filters";
+import { formatTotalReadingTime, sumReadingMinutes } from "@/lib/reading-time";
+import { formatPostDate } from "@/lib/dates";
+import { getBlogPageHref } from "@/lib/pagination";
 import { Search, X } from "lucide-react";
 
 interface BlogListProps {
-  posts: Post[];
+  posts: PostSummary[];
   categories: string[];
+  tags: TagSummary[];
+  pageSize: number;
+  /** Page of `/blog/page/[n]` being rendered; filtered views paginate with `?page=` instead. */
+  page?: number;
 }
 
-export function BlogList({ posts, categories }: BlogListProps) {
-  const [selectedCategory, setSelectedCategory] = useState("all");
-  const [query, setQuery] = useState("");
+export function BlogList({ posts, categories, tags, pageSize, page: routePage }: BlogListProps) {
+  const {
+    query,
+    setQuery,
+    selectedCategory,
+    setSelectedCategory,
+    selectedTag,
+    setSelectedTag,
+    tagCounts,
+    results: filteredPosts,
+    pageResults,
+    page,
+    pageCount,
+    isFiltered,
+    getQueryPageHref,
+    matches,
+  } = usePostFilters(posts, { pageSize, routePage });
 
-  const normalizedQuery = query.trim().toLowerCase();
-  const categoryFiltered =
-    selectedCategory === "all" ? posts : posts.filter((post) => post.category === selectedCategory);
-  const filteredPosts = categoryFiltered.filter((post) => {
-    if (!normalizedQuery) {
-      return true;
-    }
-    const haystack = `${post.title} ${post.category} ${post.content}`.toLowerCase();
-    return haystack.includes(normalizedQuery);
-  });
-
-  const featured = filteredPosts.length > 0 ? filteredPosts[0] : null;
-  const rest = filteredPosts.length > 1 ? filteredPosts.slice(1) : [];
+  // Search results are ranked by relevance, so "Latest" only applies when browsing
+  const isSearching = query.trim().length > 0;
+  const featured = !isSearching && page === 1 && pageResults.length > 0 ? pageResults[0] : null;
+  const rest = featured ? pageResults.slice(1) : pageResults;
 
   return (
     <>
@@ -77,9 +93,12 @@ export function BlogList({ posts, categories }: BlogListProps) {
             }`}
           >
             All Posts ({posts.length})
+            <span className="ml-1.5 opacity-70">
+              &middot; {formatTotalReadingTime(sumReadingMinutes(posts))}
+            </span>
           </button>
           {categories.map((category) => {
-            const count = posts.filter((p) => p.category === category).length;
+            const categoryPosts = posts.filter((p) => p.category === category);
             const isSelected = selectedCategory === category;
 
             return (
@@ -92,11 +111,21 @@ export function BlogList({ posts, categories }: BlogListProps) {
                     : "border-border bg-transparent text-muted-foreground hover:border-accent/30 hover:bg-accent/10 hover:text-accent"
                 }`}
               >
-                {category} ({count})
+                {category} ({categoryPosts.length})
+                <span className="ml-1.5 opacity-70">
+                  &middot; {formatTotalReadingTime(sumReadingMinutes(categoryPosts))}
+                </span>
               </button>
             );
           })}
         </div>
+
+        <TagFilter
+          tags={tags}
+          counts={tagCounts}
+          selectedTag={selectedTag}
+          onTagChange={setSelectedTag}
+        />
       </div>
 
       {filteredPosts.length === 0 ? (
@@ -111,6 +140,7 @@ export function BlogList({ posts, categories }: BlogListProps) {
                 <div className="rounded-[8px] border-2 border-accent/20 bg-card p-6 transition-colors hover:bg-accent/[0.02]">
                   <div className="mb-3 flex items-center gap-3">
                     <CategoryBadge category={featured.category} />
+                    <PostStatusBadge status={featured.status} publishAt={featured.publishAt} />
                     <span className="rounded-full bg-accent/15 px-3 py-1 text-[11px] font-semibold uppercase text-accent">
                       Latest
                     </span>
@@ -119,14 +149,10 @@ export function BlogList({ posts, categories }: BlogListProps) {
                     {featured.title}
                   </h2>
                   <p className="mt-2 font-geist text-[15px] leading-relaxed text-muted-foreground/90">
-                    {featured.content.substring(0, 200)}...
+                    {featured.excerpt}
                   </p>
                   <div className="mt-3 font-geist text-[12px] text-muted-foreground">
-                    {new Date(featured.date).toLocaleDateString("en-US", {
-                      year: "numeric",
-                      month: "short",
-                      day: "numeric",
-                    })}{" "}
+                    <time dateTime={featured.date}>{formatPostDate(featured.date)}</time>{" "}
                     &middot; {featured.readTime}
                   </div>
                 </div>
@@ -134,33 +160,43 @@ export function BlogList({ posts, categories }: BlogListProps) {
             </article>
           )}
 
-          {rest.map((post) => (
-            <article key={post.slug}>
-              <Link href={`/blog/${post.slug}`} className="block">
-                <div className="rounded-[8px] border border-border bg-card p-6 transition-colors hover:bg-accent/[0.02]">
-                  <div className="mb-3">
-                    <CategoryBadge category={post.category} />
-                  </div>
-                  <h2 className="font-fraunces text-[20px] font-medium leading-snug text-foreground">
-                    {post.title}
-                  </h2>
-                  <p className="mt-2 font-geist text-[15px] leading-relaxed text-muted-foreground/90">
-                    {post.content.substring(0, 200)}...
-                  </p>
-                  <div className="mt-3 font-geist text-[12px] text-muted-foreground">
-                    {new Date(post.date).toLocaleDateString("en-US", {
-                      year: "numeric",
-                      month: "short",
-                      day: "numeric",
-                    })}{" "}
-                    &middot; {post.readTime}
+          {rest.map((post) => {
+            const match = matches.get(post.slug);
+
+            return (
+              <article key={post.slug}>
+                <Link
+                  href={match?.anchor ? `/blog/${post.slug}#${match.anchor}` : `/blog/${post.slug}`}
+                  className="block"
+                >
+                  <div className="rounded-[8px] border border-border bg-card p-6 transition-colors hover:bg-accent/[0.02]">
+                    <div className="mb-3 flex items-center gap-3">
+                      <CategoryBadge category={post.category} />
+                      <PostStatusBadge status={post.status} publishAt={post.publishAt} />
+                    </div>
+                    <h2 className="font-fraunces text-[20px] font-medium leading-snug text-foreground">
+                      {post.title}
+                    </h2>
+                    <p className="mt-2 font-geist text-[15px] leading-relaxed text-muted-foreground/90">
+                      {match?.snippet ? <SearchSnippet segments={match.snippet} /> : post.excerpt}
+                    </p>
+                    <div className="mt-3 font-geist text-[12px] text-muted-foreground">
+                      <time dateTime={post.date}>{formatPostDate(post.date)}</time>{" "}
+                      &middot; {post.readTime}
+                    </div>
                   </div>
-                </div>
-              </Link>
-            </article>
-          ))}
+                </Link>
+              </article>
+            );
+          })}
         </div>
       )}
+
+      <PostPagination
+        page={page}
+        pageCount={pageCount}
+        getHref={isFiltered ? getQueryPageHref : getBlogPageHref}
+      />
     </>
   );
 }
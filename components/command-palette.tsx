@@ -0,0 +1,295 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { useTheme } from "next-themes";
+import {
+  Archive,
+  FileText,
+  Hash,
+  History,
+  Home,
+  Link as LinkIcon,
+  Rss,
+  Search,
+  SunMoon,
+  Tag,
+  User,
+  X,
+  type LucideIcon,
+} from "lucide-react";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from "@/components/ui/command";
+import { Kbd } from "@/components/ui/kbd";
+import { useSearchIndex } from "@/hooks/use-search-index";
+import { useRecentCommands, type RecentCommand } from "@/hooks/use-recent-commands";
+import { categories } from "@/lib/categories";
+import { slugify } from "@/lib/slugify";
+
+interface PaletteItem extends RecentCommand {
+  icon: LucideIcon;
+  keywords?: string[];
+  hint?: string;
+  /** Route handlers such as the RSS feed aren't pages the client router can render. */
+  fullPageLoad?: boolean;
+}
+
+const pages: PaletteItem[] = [
+  { id: "page:home", label: "Home", href: "/", icon: Home },
+  { id: "page:archive", label: "Archive", href: "/archive", icon: Archive },
+  { id: "page:about", label: "About", href: "/about", icon: User },
+  { id: "page:search", label: "Search", href: "/search", icon: Search },
+  { id: "page:rss", label: "RSS Feed", href: "/rss.xml", icon: Rss, fullPageLoad: true },
+];
+
+// Sections are only listed once the reader types, otherwise they drown out everything else
+const MIN_SECTION_QUERY_LENGTH = 2;
+
+const POST_PATH_PATTERN = /^\/blog\/[^/]+$/;
+
+const MAC_PLATFORM_PATTERN = /Mac|iPhone|iPad|iPod/;
+
+export function CommandPalette() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const { resolvedTheme, setTheme } = useTheme();
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  // The link the clipboard refused, shown for copying by hand
+  const [uncopiedLink, setUncopiedLink] = useState<string | null>(null);
+  // The server can't know the platform, so start with the common case and correct it after mount
+  const [shortcut, setShortcut] = useState("Ctrl K");
+  const { index } = useSearchIndex(open);
+  const { recent, addRecent } = useRecentCommands();
+
+  useEffect(() => {
+    if (MAC_PLATFORM_PATTERN.test(navigator.userAgent)) setShortcut("⌘K");
+  }, []);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setOpen((isOpen) => !isOpen);
+      }
+    };
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  const { posts, sections, categoryItems, tags } = useMemo(() => {
+    const documents = index?.documents ?? [];
+    // Category pages 404 without posts, so only list categories something is filed under
+    const categoryNames = new Set(documents.map((document) => document.category));
+    const tagNames = new Map<string, string>();
+    for (const document of documents) {
+      for (const name of document.tags) tagNames.set(slugify(name), name);
+    }
+
+    return {
+      posts: documents.map<PaletteItem>((document) => ({
+        id: `post:${document.slug}`,
+        label: document.title,
+        href: `/blog/${document.slug}`,
+        icon: FileText,
+        keywords: [document.category, ...document.tags],
+        hint: document.category,
+      })),
+      sections: documents.flatMap((document) =>
+        document.sections.flatMap<PaletteItem>((section) =>
+          section.id
+            ? [
+                {
+                  id: `section:${document.slug}#${section.id}`,
+                  label: section.heading,
+                  href: `/blog/${document.slug}#${section.id}`,
+                  icon: Hash,
+                  keywords: [document.title],
+                  hint: document.title,
+                },
+              ]
+            : []
+        )
+      ),
+      categoryItems: categories
+        .filter((category) => categoryNames.has(category.name))
+        .map<PaletteItem>((category) => ({
+          id: `category:${category.slug}`,
+          label: category.name,
+          href: `/blog/category/${category.slug}`,
+          icon: category.icon,
+        })),
+      tags: Array.from(tagNames, ([slug, name]) => ({
+        id: `tag:${slug}`,
+        label: `#${name}`,
+        href: `/tags/${slug}`,
+        icon: Tag,
+        keywords: [name],
+      })).sort((a, b) => a.label.localeCompare(b.label)),
+    };
+  }, [index]);
+
+  const onOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) {
+      setSearch("");
+      setUncopiedLink(null);
+    }
+  };
+
+  const navigate = (item: PaletteItem | RecentCommand) => {
+    onOpenChange(false);
+    addRecent({ id: item.id, label: item.label, href: item.href });
+    // Recent entries only store the href, so look the flag up again
+    if (pages.some((page) => page.fullPageLoad && page.href === item.href)) {
+      window.location.assign(item.href);
+    } else {
+      router.push(item.href);
+    }
+  };
+
+  const runAction = (action: () => void) => {
+    onOpenChange(false);
+    action();
+  };
+
+  // Stay open when the clipboard refuses (denied permission, insecure context)
+  const copyLink = () => {
+    const url = `${window.location.origin}${pathname}`;
+    navigator.clipboard.writeText(url).then(
+      () => onOpenChange(false),
+      () => setUncopiedLink(url)
+    );
+  };
+
+  const renderItem = (item: PaletteItem) => (
+    <CommandItem
+      key={item.id}
+      value={item.id}
+      keywords={[item.label, ...(item.keywords ?? [])]}
+      onSelect={() => navigate(item)}
+    >
+      <item.icon />
+      <span className="truncate">{item.label}</span>
+      {item.hint ? (
+        <span className="ml-auto max-w-[40%] shrink-0 truncate text-xs text-muted-foreground">
+          {item.hint}
+        </span>
+      ) : null}
+    </CommandItem>
+  );
+
+  const isPostPage = POST_PATH_PATTERN.test(pathname);
+  const showSections = search.trim().length >= MIN_SECTION_QUERY_LENGTH;
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="inline-flex h-9 items-center gap-2 rounded-[4px] px-2 text-muted-foreground transition-colors hover:bg-accent/[0.04] hover:text-foreground"
+        aria-label="Open command palette"
+      >
+        <Search className="h-4 w-4" />
+        <Kbd className="hidden md:inline-flex">{shortcut}</Kbd>
+      </button>
+
+      <CommandDialog
+        open={open}
+        onOpenChange={onOpenChange}
+        title="Command palette"
+        description="Search posts, sections, topics and pages"
+      >
+        <CommandInput
+          value={search}
+          onValueChange={setSearch}
+          placeholder="Search posts, sections, tags…"
+        />
+        <CommandList className="max-h-[420px]">
+          <CommandEmpty>{index ? "No results found." : "Loading posts…"}</CommandEmpty>
+
+          {recent.length > 0 && !search ? (
+            <>
+              <CommandGroup heading="Recent">
+                {recent.map((item) => (
+                  <CommandItem
+                    key={item.id}
+                    value={`recent:${item.id}`}
+                    keywords={[item.label]}
+                    onSelect={() => navigate(item)}
+                  >
+                    <History />
+                    <span className="truncate">{item.label}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+              <CommandSeparator />
+            </>
+          ) : null}
+
+          {posts.length > 0 ? <CommandGroup heading="Posts">{posts.map(renderItem)}</CommandGroup> : null}
+          {showSections && sections.length > 0 ? (
+            <CommandGroup heading="Sections">{sections.map(renderItem)}</CommandGroup>
+          ) : null}
+          {categoryItems.length > 0 ? (
+            <CommandGroup heading="Categories">{categoryItems.map(renderItem)}</CommandGroup>
+          ) : null}
+          {tags.length > 0 ? <CommandGroup heading="Tags">{tags.map(renderItem)}</CommandGroup> : null}
+          <CommandGroup heading="Pages">{pages.map(renderItem)}</CommandGroup>
+
+          {search.trim() ? (
+            <CommandGroup heading="Search" forceMount>
+              <CommandItem
+                value="action:search"
+                forceMount
+                onSelect={() =>
+                  runAction(() => router.push(`/search?${new URLSearchParams({ q: search.trim() })}`))
+                }
+              >
+                <Search />
+                <span className="truncate">Search all posts for “{search.trim()}”</span>
+              </CommandItem>
+            </CommandGroup>
+          ) : null}
+
+          <CommandGroup heading="Actions">
+            <CommandItem
+              value="action:toggle-theme"
+              keywords={["toggle theme", "dark mode", "light mode"]}
+              onSelect={() => runAction(() => setTheme(resolvedTheme === "dark" ? "light" : "dark"))}
+            >
+              <SunMoon />
+              <span>Toggle theme</span>
+            </CommandItem>
+            {isPostPage ? (
+              <CommandItem
+                value="action:copy-link"
+                keywords={["copy post link", "share", "url"]}
+                onSelect={copyLink}
+              >
+                {uncopiedLink ? <X /> : <LinkIcon />}
+                {uncopiedLink ? (
+                  <span className="min-w-0">
+                    Couldn&apos;t copy, select the link instead:
+                    <code className="block select-all break-all font-jetbrains text-[12px]">
+                      {uncopiedLink}
+                    </code>
+                  </span>
+                ) : (
+                  <span>Copy link to this post</span>
+                )}
+              </CommandItem>
+            ) : null}
+          </CommandGroup>
+        </CommandList>
+      </CommandDialog>
+    </>
+  );
+}
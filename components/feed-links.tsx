@@ -0,0 +1,27 @@
+import { Rss } from "lucide-react";
+import { getFeedPath } from "@/lib/feed";
+
+interface FeedLinksProps {
+  /** Page the feeds belong to, e.g. `/tags/go`. */
+  basePath: string;
+}
+
+export function FeedLinks({ basePath }: FeedLinksProps) {
+  return (
+    <span className="inline-flex items-center gap-1.5">
+      <Rss className="h-3 w-3" />
+      Subscribe:{" "}
+      <a href={getFeedPath("rss", basePath)} className="text-accent">
+        RSS
+      </a>
+      &middot;
+      <a href={getFeedPath("atom", basePath)} className="text-accent">
+        Atom
+      </a>
+      &middot;
+      <a href={getFeedPath("json", basePath)} className="text-accent">
+        JSON
+      </a>
+    </span>
+  );
+}
@@ -1,8 +1,13 @@
 import Link from "next/link";
-import { Github, Linkedin, Twitter, Rss } from "lucide-react";
+import { Rss } from "lucide-react";
+import { getAllCategories } from "@/lib/posts";
+import { getCategory } from "@/lib/categories";
+import { getFeedPath } from "@/lib/feed";
+import { siteConfig } from "@/lib/site";
 
 export function Footer() {
   const year = new Date().getFullYear();
+  const categoryFeeds = getAllCategories().flatMap((name) => getCategory(name) ?? []);
 
   return (
     <footer className="border-t border-border bg-background/50">
@@ -13,10 +18,10 @@ export function Footer() {
               href="/"
               className="font-fraunces text-[16px] text-foreground"
             >
-              Amr Mubarak
+              {siteConfig.name}
             </Link>
             <p className="mt-3 max-w-xs font-geist text-[13px] leading-relaxed text-muted-foreground">
-              Thoughts on distributed systems, databases, and software engineering.
+              {siteConfig.tagline}
             </p>
           </div>
           <div>
@@ -46,39 +51,19 @@ export function Footer() {
                 Connect
             </h3>
             <ul className="mt-4 space-y-2.5">
-              <li>
-                <a
-                  href="https://x.com/AmrAMubarak"
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="inline-flex items-center gap-2 font-geist text-[13px] text-muted-foreground transition-colors hover:text-foreground"
-                >
-                  <Twitter className="h-3.5 w-3.5" />
-                  Twitter / X
-                </a>
-              </li>
-              <li>
-                <a
-                  href="https://github.com/amrrdev"
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="inline-flex items-center gap-2 font-geist text-[13px] text-muted-foreground transition-colors hover:text-foreground"
-                >
-                  <Github className="h-3.5 w-3.5" />
-                  GitHub
-                </a>
-              </li>
-              <li>
-                <a
-                  href="https://linkedin.com/in/amramubarak"
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="inline-flex items-center gap-2 font-geist text-[13px] text-muted-foreground transition-colors hover:text-foreground"
-                >
-                  <Linkedin className="h-3.5 w-3.5" />
-                  LinkedIn
-                </a>
-              </li>
+              {siteConfig.socials.map((social) => (
+                <li key={social.url}>
+                  <a
+                    href={social.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-2 font-geist text-[13px] text-muted-foreground transition-colors hover:text-foreground"
+                  >
+                    <social.icon className="h-3.5 w-3.5" />
+                    {social.label}
+                  </a>
+                </li>
+              ))}
             </ul>
           </div>
           <div>
@@ -94,12 +79,32 @@ export function Footer() {
                   <Rss className="h-3.5 w-3.5" />
                   RSS Feed
                 </a>
+                <span className="ml-2 font-geist text-[12px] text-muted-foreground">
+                  <a href={getFeedPath("atom")} className="transition-colors hover:text-foreground">
+                    Atom
+                  </a>{" "}
+                  &middot;{" "}
+                  <a href={getFeedPath("json")} className="transition-colors hover:text-foreground">
+                    JSON
+                  </a>
+                </span>
               </li>
+              {categoryFeeds.map((category) => (
+                <li key={category.slug}>
+                  <a
+                    href={getFeedPath("rss", `/blog/category/${category.slug}`)}
+                    className="inline-flex items-center gap-2 font-geist text-[12px] text-muted-foreground transition-colors hover:text-foreground"
+                  >
+                    <Rss className="h-3 w-3" />
+                    {category.name}
+                  </a>
+                </li>
+              ))}
             </ul>
           </div>
         </div>
         <div className="mt-12 border-t border-border/40 pt-6 text-center text-[12px] text-muted-foreground">
-          &copy; {year} Amr Mubarak. All rights reserved.
+          &copy; {year} {siteConfig.author.name}. All rights reserved.
         </div>
       </div>
     </footer>
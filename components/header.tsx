@@ -4,6 +4,7 @@ import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { Menu } from "lucide-react";
 import { ThemeToggle } from "./theme-toggle";
+import { CommandPalette } from "./command-palette";
 import {
   Sheet,
   SheetContent,
@@ -19,7 +20,12 @@ const navLinks = [
   { href: "/about", label: "About" },
 ];
 
-export function Header() {
+interface HeaderProps {
+  /** `siteConfig.name`, passed in so this client component doesn't bundle the site config. */
+  siteName: string;
+}
+
+export function Header({ siteName }: HeaderProps) {
   const pathname = usePathname();
 
   const isActive = (href: string) =>
@@ -32,65 +38,68 @@ export function Header() {
           href="/"
           className="font-fraunces text-[18px] font-normal text-foreground transition-colors hover:text-accent"
         >
-          Amr Mubarak
+          {siteName}
         </Link>
 
-        {/* Desktop nav */}
-        <nav className="hidden items-center gap-1 md:flex">
-          {navLinks.map((link) => (
-            <Link
-              key={link.href}
-              href={link.href}
-              className={cn(
-                "relative px-3 py-2 text-[12px] font-normal transition-colors",
-                isActive(link.href)
-                  ? "text-foreground"
-                  : "text-muted-foreground hover:text-foreground"
-              )}
-            >
-              {link.label}
-              {isActive(link.href) && (
-                <span className="absolute bottom-0 left-3 right-3 h-[2px] bg-accent" />
-              )}
-            </Link>
-          ))}
-          <div className="ml-2 pl-2 border-l border-border/40">
+        <div className="flex items-center gap-2 md:gap-0">
+          {/* Desktop nav */}
+          <nav className="hidden items-center gap-1 md:flex">
+            {navLinks.map((link) => (
+              <Link
+                key={link.href}
+                href={link.href}
+                className={cn(
+                  "relative px-3 py-2 text-[12px] font-normal transition-colors",
+                  isActive(link.href)
+                    ? "text-foreground"
+                    : "text-muted-foreground hover:text-foreground"
+                )}
+              >
+                {link.label}
+                {isActive(link.href) && (
+                  <span className="absolute bottom-0 left-3 right-3 h-[2px] bg-accent" />
+                )}
+              </Link>
+            ))}
+          </nav>
+
+          <div className="flex items-center gap-1 md:ml-2 md:border-l md:border-border/40 md:pl-2">
+            <CommandPalette />
             <ThemeToggle />
           </div>
-        </nav>
 
-        {/* Mobile nav */}
-        <div className="flex items-center gap-2 md:hidden">
-          <ThemeToggle />
-          <Sheet>
-            <SheetTrigger asChild>
-              <button
-                className="inline-flex h-9 w-9 items-center justify-center rounded-[4px] border border-border/60 bg-card/60 text-muted-foreground transition-colors hover:border-accent/60 hover:bg-accent/10 hover:text-foreground"
-                aria-label="Open menu"
-              >
-                <Menu className="h-4 w-4" />
-              </button>
-            </SheetTrigger>
-            <SheetContent side="right" className="w-[260px] p-6">
-              <SheetTitle className="sr-only">Navigation</SheetTitle>
-              <nav className="mt-8 flex flex-col gap-2">
-                {navLinks.map((link) => (
-                  <Link
-                    key={link.href}
-                    href={link.href}
-                    className={cn(
-                      "rounded-[4px] px-4 py-3 text-[12px] font-geist transition-colors",
-                      isActive(link.href)
-                        ? "bg-accent/10 text-accent"
-                        : "text-muted-foreground hover:bg-accent/5 hover:text-foreground"
-                    )}
-                  >
-                    {link.label}
-                  </Link>
-                ))}
-              </nav>
-            </SheetContent>
-          </Sheet>
+          {/* Mobile nav */}
+          <div className="md:hidden">
+            <Sheet>
+              <SheetTrigger asChild>
+                <button
+                  className="inline-flex h-9 w-9 items-center justify-center rounded-[4px] border border-border/60 bg-card/60 text-muted-foreground transition-colors hover:border-accent/60 hover:bg-accent/10 hover:text-foreground"
+                  aria-label="Open menu"
+                >
+                  <Menu className="h-4 w-4" />
+                </button>
+              </SheetTrigger>
+              <SheetContent side="right" className="w-[260px] p-6">
+                <SheetTitle className="sr-only">Navigation</SheetTitle>
+                <nav className="mt-8 flex flex-col gap-2">
+                  {navLinks.map((link) => (
+                    <Link
+                      key={link.href}
+                      href={link.href}
+                      className={cn(
+                        "rounded-[4px] px-4 py-3 text-[12px] font-geist transition-colors",
+                        isActive(link.href)
+                          ? "bg-accent/10 text-accent"
+                          : "text-muted-foreground hover:bg-accent/5 hover:text-foreground"
+                      )}
+                    >
+                      {link.label}
+                    </Link>
+                  ))}
+                </nav>
+              </SheetContent>
+            </Sheet>
+          </div>
         </div>
       </div>
     </header>
@@ -0,0 +1,24 @@
+import type { JsonLd as JsonLdData } from "@/lib/structured-data";
+
+interface JsonLdProps {
+  data: JsonLdData | JsonLdData[];
+}
+
+// `<` is escaped so a title like "</script>" can't end the tag early
+function serialize(data: JsonLdData): string {
+  return JSON.stringify(data).replace(/</g, "\\u003c");
+}
+
+export function JsonLd({ data }: JsonLdProps) {
+  return (
+    <>
+      {(Array.isArray(data) ? data : [data]).map((item, i) => (
+        <script
+          key={i}
+          type="application/ld+json"
+          dangerouslySetInnerHTML={{ __html: serialize(item) }}
+        />
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,48 @@
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { getPageWindow } from "@/lib/pagination";
+
+interface PostPaginationProps {
+  page: number;
+  pageCount: number;
+  getHref: (page: number) => string;
+}
+
+export function PostPagination({ page, pageCount, getHref }: PostPaginationProps) {
+  if (pageCount <= 1) return null;
+
+  return (
+    <Pagination className="mt-10 font-geist">
+      <PaginationContent>
+        {page > 1 ? (
+          <PaginationItem>
+            <PaginationPrevious href={getHref(page - 1)} rel="prev" />
+          </PaginationItem>
+        ) : null}
+        {getPageWindow(page, pageCount).map((n, i) => (
+          <PaginationItem key={n ?? `gap-${i}`}>
+            {n === null ? (
+              <PaginationEllipsis />
+            ) : (
+              <PaginationLink href={getHref(n)} isActive={n === page}>
+                {n}
+              </PaginationLink>
+            )}
+          </PaginationItem>
+        ))}
+        {page < pageCount ? (
+          <PaginationItem>
+            <PaginationNext href={getHref(page + 1)} rel="next" />
+          </PaginationItem>
+        ) : null}
+      </PaginationContent>
+    </Pagination>
+  );
+}
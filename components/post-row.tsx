@@ -0,0 +1,50 @@
+import Link from "next/link";
+import { CategoryBadge } from "@/components/category-badge";
+import { PostStatusBadge } from "@/components/post-status-badge";
+import { SearchSnippet } from "@/components/search-snippet";
+import type { PostSummary } from "@/lib/posts";
+import type { SearchMatch } from "@/lib/search";
+import { formatPostDate } from "@/lib/dates";
+
+interface PostRowProps {
+  post: PostSummary;
+  showCategory?: boolean;
+  /** Search hit for this post; links to the matching section and shows the snippet. */
+  match?: SearchMatch;
+}
+
+export function PostRow({ post, showCategory = true, match }: PostRowProps) {
+  return (
+    <article>
+      <Link
+        href={match?.anchor ? `/blog/${post.slug}#${match.anchor}` : `/blog/${post.slug}`}
+        className="group block"
+      >
+        <div className="rounded-[8px] border border-border bg-card p-5 transition-colors hover:bg-accent/[0.02]">
+          <div className="mb-2 flex flex-wrap items-center gap-3 font-geist text-[12px] text-muted-foreground">
+            {showCategory && (
+              <>
+                <CategoryBadge category={post.category} />
+                <span className="text-border">|</span>
+              </>
+            )}
+            <PostStatusBadge status={post.status} publishAt={post.publishAt} />
+            <time className="font-medium" dateTime={post.date}>
+              {formatPostDate(post.date)}
+            </time>
+            <span className="text-border">|</span>
+            <span>{post.readTime}</span>
+          </div>
+          <h2 className="font-geist text-[17px] font-medium text-foreground transition-colors group-hover:text-accent">
+            {post.title}
+          </h2>
+          {match?.snippet ? (
+            <p className="mt-2 font-geist text-[14px] leading-relaxed text-muted-foreground/90">
+              <SearchSnippet segments={match.snippet} />
+            </p>
+          ) : null}
+        </div>
+      </Link>
+    </article>
+  );
+}
@@ -0,0 +1,23 @@
+import type { PostStatus } from "@/lib/posts";
+import { formatPostDate } from "@/lib/dates";
+
+interface PostStatusBadgeProps {
+  status: PostStatus;
+  publishAt: number;
+  variant?: "default" | "large";
+}
+
+export function PostStatusBadge({ status, publishAt, variant = "default" }: PostStatusBadgeProps) {
+  if (status === "published") return null;
+
+  const sizeClasses = variant === "large" ? "px-3 py-1.5 text-[13px]" : "px-2.5 py-1 text-[11px]";
+  const label = status === "draft" ? "Draft" : `Scheduled · ${formatPostDate(publishAt)}`;
+
+  return (
+    <span
+      className={`inline-flex items-center rounded-full border border-dashed border-amber-500/50 bg-amber-500/10 font-geist font-medium text-amber-700 dark:text-amber-300 ${sizeClasses}`}
+    >
+      {label}
+    </span>
+  );
+}
@@ -0,0 +1,39 @@
+import Link from "next/link";
+import { Eye } from "lucide-react";
+import type { PostStatus } from "@/lib/posts";
+import { formatPostDate } from "@/lib/dates";
+
+interface PreviewBannerProps {
+  slug: string;
+  status: PostStatus;
+  publishAt: number;
+}
+
+export function PreviewBanner({ slug, status, publishAt }: PreviewBannerProps) {
+  const description =
+    status === "draft"
+      ? "This post is a draft and is not public yet."
+      : status === "scheduled"
+        ? `This post is scheduled for ${formatPostDate(publishAt)} and is not public yet.`
+        : "This post is already public.";
+
+  return (
+    <div className="border-b border-amber-500/40 bg-amber-500/15 backdrop-blur-md">
+      <div className="mx-auto flex max-w-6xl flex-wrap items-center justify-between gap-3 px-6 py-2.5 font-geist text-[13px] text-amber-800 dark:text-amber-200">
+        <p className="inline-flex items-center gap-2">
+          <Eye className="h-4 w-4" />
+          <span>
+            <span className="font-semibold">Preview mode.</span> {description}
+          </span>
+        </p>
+        <Link
+          href={`/api/preview/exit?slug=${encodeURIComponent(slug)}`}
+          prefetch={false}
+          className="font-medium underline decoration-amber-500/50 underline-offset-4 transition-colors hover:decoration-amber-500"
+        >
+          Exit preview
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import { Check, Link as LinkIcon, X } from "lucide-react";
+import { useState } from "react";
+
+interface PreviewShareLinkProps {
+  url: string;
+}
+
+export function PreviewShareLink({ url }: PreviewShareLinkProps) {
+  const [copyState, setCopyState] = useState<"idle" | "copied" | "failed">("idle");
+
+  const copyLink = () => {
+    navigator.clipboard
+      .writeText(url)
+      .then(() => {
+        setCopyState("copied");
+        setTimeout(() => setCopyState("idle"), 2000);
+      })
+      // Denied permission or an insecure context: show the link to copy by hand instead
+      .catch(() => setCopyState("failed"));
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-3 rounded-[8px] border border-dashed border-amber-500/50 bg-amber-500/10 px-4 py-3 font-geist text-[13px] text-amber-800 dark:text-amber-200">
+      <span>Not published yet. Reviewers can open it with a temporary preview link.</span>
+      <button
+        onClick={copyLink}
+        className="inline-flex items-center gap-1.5 rounded-[4px] px-2 py-1 font-medium transition-colors hover:bg-amber-500/15"
+      >
+        {copyState === "copied" ? (
+          <Check className="h-3.5 w-3.5" />
+        ) : copyState === "failed" ? (
+          <X className="h-3.5 w-3.5" />
+        ) : (
+          <LinkIcon className="h-3.5 w-3.5" />
+        )}
+        {copyState === "copied"
+          ? "Copied"
+          : copyState === "failed"
+            ? "Couldn't copy"
+            : "Copy preview link"}
+      </button>
+      {copyState === "failed" && (
+        <code className="w-full select-all break-all font-jetbrains text-[12px]">{url}</code>
+      )}
+    </div>
+  );
+}
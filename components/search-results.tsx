@@ -0,0 +1,118 @@
+"use client";
+
+import { Search, X } from "lucide-react";
+import { PostRow } from "@/components/post-row";
+import { PostPagination } from "@/components/post-pagination";
+import { TagFilter } from "@/components/tag-filter";
+import { usePostFilters } from "@/hooks/use-post-filters";
+import type { PostSummary, TagSummary } from "@/lib/posts";
+
+interface SearchResultsProps {
+  posts: PostSummary[];
+  categories: string[];
+  tags: TagSummary[];
+  pageSize: number;
+}
+
+export function SearchResults({ posts, categories, tags, pageSize }: SearchResultsProps) {
+  const {
+    query,
+    setQuery,
+    selectedCategory,
+    setSelectedCategory,
+    selectedTag,
+    setSelectedTag,
+    tagCounts,
+    results,
+    pageResults,
+    page,
+    pageCount,
+    getQueryPageHref,
+    matches,
+    isLoading,
+  } = usePostFilters(posts, { pageSize });
+
+  const trimmedQuery = query.trim();
+
+  return (
+    <>
+      <div className="mb-10 space-y-6">
+        <form role="search" onSubmit={(event) => event.preventDefault()} className="relative">
+          <label htmlFor="site-search" className="sr-only">
+            Search posts
+          </label>
+          <Search className="pointer-events-none absolute left-4 top-1/2 h-5 w-5 -translate-y-1/2 text-muted-foreground" />
+          <input
+            id="site-search"
+            type="search"
+            autoFocus
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            placeholder="Search titles, headings and full post text"
+            className="h-14 w-full rounded-[4px] border border-border bg-card pl-12 pr-12 font-geist text-[17px] text-foreground transition focus:border-accent focus:outline-none focus:ring-3 focus:ring-accent/10"
+          />
+          {query ? (
+            <button
+              type="button"
+              onClick={() => setQuery("")}
+              className="absolute right-4 top-1/2 -translate-y-1/2 text-muted-foreground transition hover:text-foreground"
+              aria-label="Clear search"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          ) : null}
+        </form>
+
+        <div className="flex flex-wrap gap-2">
+          {["all", ...categories].map((category) => {
+            const isSelected = selectedCategory === category;
+
+            return (
+              <button
+                key={category}
+                onClick={() => setSelectedCategory(category)}
+                aria-pressed={isSelected}
+                className={`rounded-full border px-4 py-2 font-geist text-[11px] transition ${
+                  isSelected
+                    ? "border-accent/30 bg-accent/10 text-accent"
+                    : "border-border bg-transparent text-muted-foreground hover:border-accent/30 hover:bg-accent/10 hover:text-accent"
+                }`}
+              >
+                {category === "all" ? "All categories" : category}
+              </button>
+            );
+          })}
+        </div>
+
+        <TagFilter
+          tags={tags}
+          counts={tagCounts}
+          selectedTag={selectedTag}
+          onTagChange={setSelectedTag}
+        />
+      </div>
+
+      <p className="mb-4 font-geist text-[12px] text-muted-foreground" aria-live="polite">
+        {trimmedQuery
+          ? isLoading
+            ? "Searching…"
+            : `${results.length} result${results.length === 1 ? "" : "s"} for “${trimmedQuery}”`
+          : `${results.length} post${results.length === 1 ? "" : "s"}`}
+      </p>
+
+      {results.length === 0 ? (
+        <div className="rounded-[8px] border border-dashed border-border bg-card/60 p-8 text-center font-geist text-[14px] text-muted-foreground">
+          No posts match your search. Try a different keyword or clear the filters.
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {pageResults.map((post) => (
+            <PostRow key={post.slug} post={post} match={matches.get(post.slug)} />
+          ))}
+        </div>
+      )}
+
+      <PostPagination page={page} pageCount={pageCount} getHref={getQueryPageHref} />
+    </>
+  );
+}
@@ -0,0 +1,21 @@
+import type { HighlightSegment } from "@/lib/search";
+
+interface SearchSnippetProps {
+  segments: HighlightSegment[];
+}
+
+export function SearchSnippet({ segments }: SearchSnippetProps) {
+  return (
+    <>
+      {segments.map((segment, i) =>
+        segment.match ? (
+          <mark key={i} className="rounded-[2px] bg-accent/15 px-0.5 text-foreground">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={i}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
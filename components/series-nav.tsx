@@ -0,0 +1,103 @@
+import Link from "next/link";
+import { ArrowLeft, ArrowRight } from "lucide-react";
+import type { Series } from "@/lib/posts";
+import { cn } from "@/lib/utils";
+
+interface SeriesNavProps {
+  series: Series;
+  currentSlug: string;
+}
+
+export function SeriesNav({ series, currentSlug }: SeriesNavProps) {
+  const index = series.posts.findIndex((post) => post.slug === currentSlug);
+  if (index === -1) return null;
+
+  const current = series.posts[index];
+  // Part numbers come from `seriesOrder`, which can skip numbers or start past 1
+  const lastPart = series.posts[series.posts.length - 1].series.order;
+
+  const previous = index > 0 ? series.posts[index - 1] : null;
+  const next = index < series.posts.length - 1 ? series.posts[index + 1] : null;
+
+  return (
+    <nav
+      aria-label="Series navigation"
+      className="mt-12 rounded-[8px] border border-border bg-card p-6"
+    >
+      <p className="text-[12px] font-semibold uppercase tracking-[0.2em] text-muted-foreground">
+        Part {current.series.order} of {lastPart}
+      </p>
+      <Link
+        href={`/series/${series.slug}`}
+        className="mt-2 block font-fraunces text-[20px] font-medium leading-snug text-foreground transition-colors hover:text-accent"
+      >
+        {series.name}
+      </Link>
+
+      <ol className="mt-4 space-y-1.5 font-geist text-[14px]">
+        {series.posts.map((post) => (
+          <li key={post.slug} className="flex gap-3">
+            <span className="w-5 shrink-0 text-muted-foreground">{post.series.order}.</span>
+            {post.slug === currentSlug ? (
+              <span aria-current="page" className="font-medium text-accent">
+                {post.title}
+              </span>
+            ) : (
+              <Link
+                href={`/blog/${post.slug}`}
+                className="text-muted-foreground transition-colors hover:text-foreground"
+              >
+                {post.title}
+              </Link>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      <div className="mt-6 grid gap-3 border-t border-border/40 pt-5 sm:grid-cols-2">
+        {previous ? (
+          <SeriesLink href={`/blog/${previous.slug}`} label="Previous" title={previous.title} />
+        ) : (
+          <span />
+        )}
+        {next && <SeriesLink href={`/blog/${next.slug}`} label="Next" title={next.title} isNext />}
+      </div>
+    </nav>
+  );
+}
+
+function SeriesLink({
+  href,
+  label,
+  title,
+  isNext = false,
+}: {
+  href: string;
+  label: string;
+  title: string;
+  isNext?: boolean;
+}) {
+  return (
+    <Link
+      href={href}
+      rel={isNext ? "next" : "prev"}
+      className={cn(
+        "group rounded-[4px] px-3 py-2 transition-colors hover:bg-accent/[0.04]",
+        isNext && "sm:text-right"
+      )}
+    >
+      <span
+        className={cn(
+          "inline-flex items-center gap-1.5 font-geist text-[12px] text-muted-foreground",
+          isNext && "sm:flex-row-reverse"
+        )}
+      >
+        {isNext ? <ArrowRight className="h-3.5 w-3.5" /> : <ArrowLeft className="h-3.5 w-3.5" />}
+        {label}
+      </span>
+      <span className="mt-1 block font-geist text-[14px] text-foreground transition-colors group-hover:text-accent">
+        {title}
+      </span>
+    </Link>
+  );
+}
@@ -1,35 +1,27 @@
 "use client";
 
 import { useEffect, useState } from "react";
+import type { TocItem } from "@/lib/toc";
 import { cn } from "@/lib/utils";
 
-interface TocItem {
-  id: string;
-  text: string;
-  level: number;
+interface TableOfContentsProps {
+  items: TocItem[];
 }
 
-export function TableOfContents() {
-  const [items, setItems] = useState<TocItem[]>([]);
+function flatten(items: TocItem[]): TocItem[] {
+  return items.flatMap((item) => [item, ...flatten(item.children)]);
+}
+
+export function TableOfContents({ items }: TableOfContentsProps) {
   const [activeId, setActiveId] = useState("");
+  const flatItems = flatten(items);
 
   useEffect(() => {
-    const headings = document.querySelectorAll("h2, h3");
-    const tocItems: TocItem[] = [];
-
-    headings.forEach((h) => {
-      const rawId = h.textContent || "";
-      const id = rawId
-        .toLowerCase()
-        .replace(/\s+/g, "-")
-        .replace(/[^a-z0-9-]/g, "");
-      h.id = id;
-      tocItems.push({ id, text: rawId, level: h.tagName === "H2" ? 2 : 3 });
-    });
+    const headings = flatten(items)
+      .map((item) => document.getElementById(item.id))
+      .filter((heading): heading is HTMLElement => heading !== null);
 
-    setItems(tocItems);
-
-    if (tocItems.length < 3) return;
+    if (headings.length < 3) return;
 
     const observer = new IntersectionObserver(
       (entries) => {
@@ -44,19 +36,28 @@ export function TableOfContents() {
 
     headings.forEach((h) => observer.observe(h));
     return () => observer.disconnect();
-  }, []);
+  }, [items]);
 
-  if (items.length < 3) return null;
+  if (flatItems.length < 3) return null;
 
   return (
     <aside className="sticky top-24 w-full">
       <h4 className="mb-4 text-[12px] font-semibold uppercase tracking-[0.2em] text-muted-foreground">
         On this page
       </h4>
-      <nav className="max-h-[calc(100vh-10rem)] overflow-y-auto overscroll-contain space-y-0.5 border-l border-border/40 [&::-webkit-scrollbar]:w-1.5 [&::-webkit-scrollbar-thumb]:rounded-full [&::-webkit-scrollbar-thumb]:bg-border [&::-webkit-scrollbar-track]:bg-transparent">
-        {items.map((item) => (
+      <nav className="max-h-[calc(100vh-10rem)] overflow-y-auto overscroll-contain border-l border-border/40 [&::-webkit-scrollbar]:w-1.5 [&::-webkit-scrollbar-thumb]:rounded-full [&::-webkit-scrollbar-thumb]:bg-border [&::-webkit-scrollbar-track]:bg-transparent">
+        <TocList items={items} activeId={activeId} />
+      </nav>
+    </aside>
+  );
+}
+
+function TocList({ items, activeId }: { items: TocItem[]; activeId: string }) {
+  return (
+    <ul className="space-y-0.5">
+      {items.map((item) => (
+        <li key={item.id}>
           <a
-            key={item.id}
             href={`#${item.id}`}
             className={cn(
               "block border-l-2 py-1.5 pl-4 text-[13px] transition-all",
@@ -68,8 +69,9 @@ export function TableOfContents() {
           >
             {item.text}
           </a>
-        ))}
-      </nav>
-    </aside>
+          {item.children.length > 0 && <TocList items={item.children} activeId={activeId} />}
+        </li>
+      ))}
+    </ul>
   );
 }
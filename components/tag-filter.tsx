@@ -0,0 +1,41 @@
+"use client";
+
+import type { TagSummary } from "@/lib/posts";
+
+interface TagFilterProps {
+  tags: TagSummary[];
+  /** Post count per tag slug within the current category selection. */
+  counts: Record<string, number>;
+  selectedTag: string;
+  onTagChange: (tag: string) => void;
+}
+
+export function TagFilter({ tags, counts, selectedTag, onTagChange }: TagFilterProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      <span className="mr-1 font-geist text-[11px] uppercase tracking-[0.2em] text-muted-foreground">
+        Tags
+      </span>
+      {tags.map((tag) => {
+        const count = counts[tag.slug] ?? 0;
+        const isSelected = selectedTag === tag.slug;
+
+        return (
+          <button
+            key={tag.slug}
+            onClick={() => onTagChange(isSelected ? "all" : tag.slug)}
+            disabled={count === 0 && !isSelected}
+            aria-pressed={isSelected}
+            className={`rounded-full border px-2.5 py-1 font-geist text-[11px] transition disabled:opacity-40 ${
+              isSelected
+                ? "border-accent/30 bg-accent/10 text-accent"
+                : "border-border/60 bg-transparent text-muted-foreground enabled:hover:border-accent/30 enabled:hover:text-accent"
+            }`}
+          >
+            #{tag.name} <span className="opacity-70">{count}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import Link from "next/link";
+import type { PostTag } from "@/lib/posts";
+
+interface TagListProps {
+  tags: PostTag[];
+}
+
+export function TagList({ tags }: TagListProps) {
+  if (tags.length === 0) return null;
+
+  return (
+    <ul className="flex flex-wrap gap-2" aria-label="Tags">
+      {tags.map((tag) => (
+        <li key={tag.slug}>
+          <Link
+            href={`/tags/${tag.slug}`}
+            className="inline-flex items-center rounded-full border border-border px-2.5 py-1 font-geist text-[11px] text-muted-foreground transition hover:border-accent/30 hover:bg-accent/10 hover:text-accent"
+          >
+            #{tag.name}
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,122 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { usePathname, useSearchParams } from "next/navigation";
+import { usePostSearch } from "@/hooks/use-post-search";
+import { getCategory, getCategoryBySlug } from "@/lib/categories";
+import { getPageCount, getPageItems, parsePageNumber } from "@/lib/pagination";
+import type { PostSummary } from "@/lib/posts";
+
+type FilterParam = "q" | "category" | "tag" | "page";
+
+interface PostFilterOptions {
+  pageSize: number;
+  /** Page of a statically generated route such as `/blog/page/3`, used while no filter is active. */
+  routePage?: number;
+}
+
+/**
+ * Category, tag and free-text filters for a post list, stored in the URL as
+ * `?q=...&category=<slug>&tag=<slug>` so any combination can be bookmarked,
+ * shared and restored with the back button. Filter clicks add a history entry;
+ * typing replaces the current one. Results are paginated with `?page=<n>`, and
+ * any filter change goes back to the first page.
+ */
+export function usePostFilters<T extends PostSummary>(
+  posts: T[],
+  { pageSize, routePage = 1 }: PostFilterOptions
+) {
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const urlQuery = searchParams.get("q") ?? "";
+  const categorySlug = searchParams.get("category");
+  const selectedCategory = (categorySlug && getCategoryBySlug(categorySlug)?.name) || "all";
+  const selectedTag = searchParams.get("tag") ?? "all";
+
+  // The input keeps its own state so typing never waits on a router update.
+  // The URL holds the trimmed query, so only a different search overwrites it.
+  const [query, setQueryState] = useState(urlQuery);
+  useEffect(() => {
+    setQueryState((current) => (current.trim() === urlQuery.trim() ? current : urlQuery));
+  }, [urlQuery]);
+
+  const updateParams = (
+    updates: Partial<Record<FilterParam, string | null>>,
+    history: "push" | "replace"
+  ) => {
+    const params = new URLSearchParams(searchParams.toString());
+    for (const [key, value] of Object.entries(updates)) {
+      if (value) params.set(key, value);
+      else params.delete(key);
+    }
+    const search = params.toString();
+    const url = search ? `${pathname}?${search}` : pathname;
+    if (history === "push") window.history.pushState(null, "", url);
+    else window.history.replaceState(null, "", url);
+  };
+
+  const setQuery = (value: string) => {
+    setQueryState(value);
+    // Surrounding whitespace doesn't change the search, so it keeps the page too
+    const trimmed = value.trim();
+    if (trimmed === query.trim()) return;
+    updateParams({ q: trimmed || null, page: null }, "replace");
+  };
+
+  const setSelectedCategory = (name: string) => {
+    updateParams(
+      { category: name === "all" ? null : getCategory(name)?.slug ?? null, page: null },
+      "push"
+    );
+  };
+
+  const setSelectedTag = (slug: string) => {
+    updateParams({ tag: slug === "all" ? null : slug, page: null }, "push");
+  };
+
+  const categoryFiltered =
+    selectedCategory === "all" ? posts : posts.filter((post) => post.category === selectedCategory);
+  const tagCounts: Record<string, number> = {};
+  for (const post of categoryFiltered) {
+    for (const tag of post.tags) {
+      tagCounts[tag.slug] = (tagCounts[tag.slug] ?? 0) + 1;
+    }
+  }
+  const tagFiltered =
+    selectedTag === "all"
+      ? categoryFiltered
+      : categoryFiltered.filter((post) => post.tags.some((tag) => tag.slug === selectedTag));
+  const { results, matches, isLoading } = usePostSearch(tagFiltered, query);
+
+  const isFiltered = query.trim() !== "" || selectedCategory !== "all" || selectedTag !== "all";
+  const pageCount = getPageCount(results.length, pageSize);
+  const requestedPage = parsePageNumber(searchParams.get("page")) ?? (isFiltered ? 1 : routePage);
+  const page = Math.min(requestedPage, pageCount);
+
+  const getQueryPageHref = (target: number) => {
+    const params = new URLSearchParams(searchParams.toString());
+    if (target > 1) params.set("page", String(target));
+    else params.delete("page");
+    const search = params.toString();
+    return search ? `${pathname}?${search}` : pathname;
+  };
+
+  return {
+    query,
+    setQuery,
+    selectedCategory,
+    setSelectedCategory,
+    selectedTag,
+    setSelectedTag,
+    tagCounts,
+    results,
+    pageResults: getPageItems(results, page, pageSize),
+    page,
+    pageCount,
+    isFiltered,
+    getQueryPageHref,
+    matches,
+    isLoading,
+  };
+}
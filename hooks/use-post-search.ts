@@ -0,0 +1,41 @@
+"use client";
+
+import { useMemo } from "react";
+import { useSearchIndex } from "@/hooks/use-search-index";
+import type { PostSummary } from "@/lib/posts";
+import { searchIndex, type SearchMatch } from "@/lib/search";
+
+/**
+ * Ranks posts against a free-text query using the prebuilt search index. Until
+ * the index has loaded, it falls back to matching titles, taxonomy and excerpts
+ * in their original order.
+ */
+export function usePostSearch<T extends PostSummary>(posts: T[], query: string) {
+  const normalizedQuery = query.trim().toLowerCase();
+  const { index, isLoading } = useSearchIndex(normalizedQuery.length > 0);
+
+  const matches = useMemo(
+    () => (index && normalizedQuery ? searchIndex(index, normalizedQuery) : null),
+    [index, normalizedQuery]
+  );
+
+  if (!normalizedQuery) {
+    return { results: posts, matches: new Map<string, SearchMatch>(), isLoading: false };
+  }
+
+  if (!matches) {
+    const results = posts.filter((post) => {
+      const tagNames = post.tags.map((tag) => tag.name).join(" ");
+      const haystack = `${post.title} ${post.category} ${tagNames} ${post.excerpt}`.toLowerCase();
+      return haystack.includes(normalizedQuery);
+    });
+    return { results, matches: new Map<string, SearchMatch>(), isLoading };
+  }
+
+  const bySlug = new Map(posts.map((post) => [post.slug, post]));
+  const results = matches.flatMap((match) => {
+    const post = bySlug.get(match.slug);
+    return post ? [post] : [];
+  });
+  return { results, matches: new Map(matches.map((match) => [match.slug, match])), isLoading };
+}
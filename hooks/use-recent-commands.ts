@@ -0,0 +1,46 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+const STORAGE_KEY = "command-palette:recent";
+const MAX_RECENT = 5;
+
+export interface RecentCommand {
+  id: string;
+  label: string;
+  href: string;
+}
+
+function readRecent(): RecentCommand[] {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(stored) ? stored.slice(0, MAX_RECENT) : [];
+  } catch {
+    // Private mode or a corrupted value: start over rather than break the palette
+    return [];
+  }
+}
+
+/** Destinations recently opened from the command palette, newest first. */
+export function useRecentCommands() {
+  const [recent, setRecent] = useState<RecentCommand[]>([]);
+
+  useEffect(() => {
+    setRecent(readRecent());
+  }, []);
+
+  const addRecent = useCallback((command: RecentCommand) => {
+    const next = [command, ...readRecent().filter((item) => item.id !== command.id)].slice(
+      0,
+      MAX_RECENT
+    );
+    setRecent(next);
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch {
+      // Storage full or unavailable; the list still updates for this session
+    }
+  }, []);
+
+  return { recent, addRecent };
+}
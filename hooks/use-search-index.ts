@@ -0,0 +1,52 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { SEARCH_INDEX_PATH, SEARCH_INDEX_VERSION, type SearchIndex } from "@/lib/search";
+
+let indexPromise: Promise<SearchIndex> | null = null;
+
+function loadSearchIndex(): Promise<SearchIndex> {
+  indexPromise ??= fetch(SEARCH_INDEX_PATH)
+    .then((response) => {
+      if (!response.ok) throw new Error(`Failed to load search index (${response.status})`);
+      return response.json() as Promise<SearchIndex>;
+    })
+    .then((index) => {
+      if (index.version !== SEARCH_INDEX_VERSION) throw new Error("Stale search index");
+      return index;
+    })
+    .catch((error) => {
+      // Let the next search retry instead of caching the failure
+      indexPromise = null;
+      throw error;
+    });
+  return indexPromise;
+}
+
+/**
+ * Fetches the prebuilt search index the first time `enabled` becomes true, so
+ * pages only pay for it once the reader actually searches.
+ */
+export function useSearchIndex(enabled: boolean) {
+  const [index, setIndex] = useState<SearchIndex | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!enabled || index) return;
+
+    let cancelled = false;
+    loadSearchIndex().then(
+      (loaded) => {
+        if (!cancelled) setIndex(loaded);
+      },
+      (loadError: Error) => {
+        if (!cancelled) setError(loadError);
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, index]);
+
+  return { index, isLoading: enabled && !index && !error, error };
+}
@@ -0,0 +1,78 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import type { Author } from "@/lib/authors";
+import type { PostIssue } from "@/lib/post-schema";
+
+const AUTHORS_FILE = "content/authors.json";
+
+const nonEmptyString = z
+  .string({ required_error: "Required", invalid_type_error: "Expected a string" })
+  .trim()
+  .min(1, "Must not be empty");
+
+const authorSchema = z
+  .object({
+    name: nonEmptyString,
+    jobTitle: nonEmptyString.optional(),
+    bio: nonEmptyString,
+    avatar: nonEmptyString.refine(
+      (avatar) => avatar.startsWith("/") && fs.existsSync(path.join(process.cwd(), "public", avatar)),
+      "Expected an image in public/, e.g. /authors/jane.png"
+    ),
+    email: z
+      .string({ invalid_type_error: "Expected a string" })
+      .email("Expected an email address")
+      .optional(),
+    links: z
+      .array(
+        z
+          .object({
+            label: nonEmptyString,
+            url: z.string({ required_error: "Required" }).url("Expected an absolute URL"),
+          })
+          .strict(),
+        { invalid_type_error: "Expected a list of { label, url }" }
+      )
+      .optional(),
+  })
+  .strict();
+
+const authorIdSchema = z
+  .string()
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Expected a lowercase id like jane-doe");
+
+const authorsFileSchema = z.record(z.string(), z.unknown(), {
+  invalid_type_error: "Expected an object of authors keyed by id",
+});
+
+function toIssues(issues: z.ZodIssue[], prefix: string[] = []): PostIssue[] {
+  return issues.map((issue) => ({
+    file: AUTHORS_FILE,
+    field: [...prefix, ...issue.path].join(".") || "(root)",
+    message: issue.message,
+  }));
+}
+
+/**
+ * Reads `content/authors.json`, keeping every valid entry. Broken entries are
+ * left out and described in `issues`, in the same shape as frontmatter issues,
+ * so one bad profile doesn't take the rest of the site down with it.
+ */
+export function parseAuthors(data: unknown): { authors: Author[]; issues: PostIssue[] } {
+  const file = authorsFileSchema.safeParse(data);
+  if (!file.success) return { authors: [], issues: toIssues(file.error.issues) };
+
+  const authors: Author[] = [];
+  const issues: PostIssue[] = [];
+  for (const [id, entry] of Object.entries(file.data)) {
+    const idResult = authorIdSchema.safeParse(id);
+    const result = authorSchema.safeParse(entry);
+    if (!idResult.success) issues.push(...toIssues(idResult.error.issues, [id]));
+    if (!result.success) issues.push(...toIssues(result.error.issues, [id]));
+    if (idResult.success && result.success) {
+      authors.push({ ...result.data, id, links: result.data.links ?? [] });
+    }
+  }
+  return { authors, issues };
+}
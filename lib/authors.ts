@@ -0,0 +1,81 @@
+import { Github, Globe, Linkedin, Twitter, type LucideIcon } from "lucide-react";
+import { parseAuthors } from "@/lib/author-schema";
+import authorsData from "@/content/authors.json";
+
+export interface AuthorLink {
+  label: string;
+  url: string;
+}
+
+export interface Author {
+  /** The key in `content/authors.json`, used by `author`/`authors` frontmatter and `/authors/<id>`. */
+  id: string;
+  name: string;
+  jobTitle?: string;
+  bio: string;
+  /** Site-relative path to an image in `public/`. */
+  avatar: string;
+  email?: string;
+  links: AuthorLink[];
+}
+
+const parsed = parseAuthors(authorsData);
+
+/**
+ * Everyone who writes here, from `content/authors.json`. The file is checked
+ * together with the posts, so a broken entry fails the build the same way
+ * broken frontmatter does.
+ */
+export const authors: Author[] = parsed.authors;
+
+/** Problems in `content/authors.json`; `getAllPosts` reports them with the post issues. */
+export const authorIssues = parsed.issues;
+
+/** The site owner: credited on posts that name no author, and on site-wide metadata. */
+export const DEFAULT_AUTHOR_ID = "amr";
+
+/**
+ * The site owner's profile. Site-wide metadata needs it before any post is
+ * read, so a missing or broken entry is an error right away.
+ */
+export function getDefaultAuthor(): Author {
+  const author = getAuthor(DEFAULT_AUTHOR_ID);
+  if (author) return author;
+
+  const details = authorIssues.map((issue) => `\n  ${issue.file} → ${issue.field}: ${issue.message}`);
+  throw new Error(
+    `content/authors.json has no valid entry for the site owner "${DEFAULT_AUTHOR_ID}"${details.join("")}`
+  );
+}
+
+export function getAuthor(id: string): Author | null {
+  return authors.find((author) => author.id === id) ?? null;
+}
+
+/** Resolves author ids, skipping unknown ones (frontmatter validation reports those). */
+export function getAuthors(ids: string[]): Author[] {
+  return ids.flatMap((id) => getAuthor(id) ?? []);
+}
+
+/** "Ada", "Ada and Grace", "Ada, Grace and Barbara". */
+export function formatAuthorNames(authors: Pick<Author, "name">[]): string {
+  const names = authors.map((author) => author.name);
+  return names.length <= 1
+    ? (names[0] ?? "")
+    : `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`;
+}
+
+export function getAuthorHref(id: string): string {
+  return `/authors/${id}`;
+}
+
+const LINK_ICONS: [RegExp, LucideIcon][] = [
+  [/(^|\.)(x|twitter)\.com$/, Twitter],
+  [/(^|\.)github\.com$/, Github],
+  [/(^|\.)linkedin\.com$/, Linkedin],
+];
+
+export function getLinkIcon(url: string): LucideIcon {
+  const host = new URL(url).hostname;
+  return LINK_ICONS.find(([pattern]) => pattern.test(host))?.[1] ?? Globe;
+}
@@ -0,0 +1,111 @@
+import { BrainCircuit, Database, HardDrive, Network, Workflow, type LucideIcon } from "lucide-react";
+
+export interface CategoryColors {
+  bg: string;
+  text: string;
+  border: string;
+  /** Raw color for places Tailwind classes can't reach (images, feeds). */
+  hex: string;
+}
+
+export interface CategoryDefinition {
+  slug: string;
+  name: string;
+  description: string;
+  colors: CategoryColors;
+  icon: LucideIcon;
+}
+
+/**
+ * Every category a post may use. Frontmatter is validated against these names,
+ * so adding a category means adding it here first.
+ */
+export const categories = [
+  {
+    slug: "distributed-systems",
+    name: "Distributed Systems",
+    description:
+      "Replication, consistency, transactions across machines, and what happens to your data when the network stops cooperating.",
+    colors: {
+      bg: "bg-accent/10",
+      text: "text-accent",
+      border: "border-accent/20",
+      hex: "#C2367F",
+    },
+    icon: Network,
+  },
+  {
+    slug: "database-internals",
+    name: "Database Internals",
+    description:
+      "How storage engines actually work: pages, B+ trees, LSM trees, write-ahead logs, and concurrency control, often built from scratch in Go.",
+    colors: {
+      bg: "bg-[#00D4FF]/10",
+      text: "text-[#00D4FF]",
+      border: "border-[#00D4FF]/20",
+      hex: "#00D4FF",
+    },
+    icon: HardDrive,
+  },
+  {
+    slug: "database",
+    name: "Database",
+    description:
+      "Running databases in production: schema changes, migrations, and the operational habits that keep them healthy.",
+    colors: {
+      bg: "bg-[#10B981]/10",
+      text: "text-[#10B981]",
+      border: "border-[#10B981]/20",
+      hex: "#10B981",
+    },
+    icon: Database,
+  },
+  {
+    slug: "system-design",
+    name: "System Design",
+    description:
+      "Building blocks of backend systems — caches, queues, load balancers, idempotent APIs — and the tradeoffs behind them.",
+    colors: {
+      bg: "bg-[#E030EB]/10",
+      text: "text-[#E030EB]",
+      border: "border-[#E030EB]/20",
+      hex: "#E030EB",
+    },
+    icon: Workflow,
+  },
+  {
+    slug: "ai-engineering",
+    name: "AI Engineering",
+    description: "Engineering notes on building and operating systems around machine learning models.",
+    colors: {
+      bg: "bg-accent/10",
+      text: "text-accent",
+      border: "border-accent/20",
+      hex: "#C2367F",
+    },
+    icon: BrainCircuit,
+  },
+] as const satisfies readonly CategoryDefinition[];
+
+export type PostCategory = (typeof categories)[number]["name"];
+
+export const CATEGORY_NAMES = categories.map((category) => category.name) as [
+  PostCategory,
+  ...PostCategory[],
+];
+
+/** Colors for names missing from the registry, e.g. while a post is being written. */
+export const fallbackCategoryColors: CategoryColors = {
+  bg: "bg-muted/30",
+  text: "text-muted-foreground",
+  border: "border-border",
+  hex: "#8A8797",
+};
+
+export function getCategory(name: string): CategoryDefinition | null {
+  return categories.find((category) => category.name === name) ?? null;
+}
+
+export function getCategoryBySlug(slug: string): CategoryDefinition | null {
+  return categories.find((category) => category.slug === slug) ?? null;
+}
@@ -0,0 +1,56 @@
+export const POST_DATE_PATTERN = /^(\d{4})-(\d{1,2})-(\d{1,2})$/;
+
+export interface PostDate {
+  /** Zero-padded `YYYY-MM-DD`, safe to compare and to put in `dateTime`. */
+  iso: string;
+  /** Milliseconds since the epoch at midnight UTC. */
+  timestamp: number;
+}
+
+export function isCalendarDate(value: string): boolean {
+  const match = POST_DATE_PATTERN.exec(value);
+  if (!match) return false;
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+export function parsePostDate(value: string): PostDate {
+  const match = POST_DATE_PATTERN.exec(value);
+  if (!match) {
+    throw new Error(`Invalid post date "${value}"`);
+  }
+  const [, year, month, day] = match.map(Number);
+  const timestamp = Date.UTC(year, month - 1, day);
+
+  return {
+    iso: new Date(timestamp).toISOString().slice(0, 10),
+    timestamp,
+  };
+}
+
+/** Timestamp for a `publishAt` or `updated` value, which may be a calendar day or a full datetime. */
+export function parseDateTime(value: string): number {
+  return isCalendarDate(value) ? parsePostDate(value).timestamp : Date.parse(value);
+}
+
+const defaultFormat: Intl.DateTimeFormatOptions = {
+  year: "numeric",
+  month: "short",
+  day: "numeric",
+};
+
+// Post dates are calendar days pinned to UTC, so they are always formatted in
+// UTC too. Using the local zone would render "Mar 9" for a "2026-03-10" post
+// anywhere west of Greenwich, and differently on the server and the client.
+export function formatPostDate(
+  date: string | number,
+  options: Intl.DateTimeFormatOptions = defaultFormat
+): string {
+  const value = typeof date === "number" ? date : parsePostDate(date).timestamp;
+  return new Date(value).toLocaleDateString("en-US", { ...options, timeZone: "UTC" });
+}
+
+export function getPostYear(date: string): number {
+  return new Date(parsePostDate(date).timestamp).getUTCFullYear();
+}
@@ -0,0 +1,79 @@
+import { parseMarkdown, toPlainText, type MarkdownNode } from "@/lib/markdown";
+
+const MAX_LENGTH = 200;
+// Prefer ending on a full sentence, unless that would throw away most of the budget
+const MIN_SENTENCE_LENGTH = 80;
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+const HEADING_PATTERN = /^ {0,3}#{1,6}(?:\s|$)/;
+
+/**
+ * The markdown split before every heading and code fence. Each piece parses on
+ * its own, so the excerpt only has to parse the opening of a post.
+ */
+function* splitAtBlocks(markdown: string): Generator<string> {
+  let start = 0;
+  let offset = 0;
+  let openFence: string | null = null;
+
+  for (const line of markdown.split("\n")) {
+    const fence = FENCE_PATTERN.exec(line);
+    if (openFence) {
+      // A fence closes on a line using the same character, at least as long
+      if (fence && fence[1][0] === openFence[0] && fence[1].length >= openFence.length) {
+        openFence = null;
+      }
+    } else if (fence || HEADING_PATTERN.test(line)) {
+      if (offset > start) yield markdown.slice(start, offset);
+      start = offset;
+      openFence = fence ? fence[1] : null;
+    }
+    offset += line.length + 1;
+  }
+  yield markdown.slice(start);
+}
+
+function collectParagraphs(node: MarkdownNode, paragraphs: string[]): void {
+  if (node.type === "paragraph") {
+    const text = toPlainText(node).replace(/\s+/g, " ").trim();
+    if (text) paragraphs.push(text);
+    return;
+  }
+  // Headings, code, tables and HTML never read well out of context
+  if (node.type === "root" || node.type === "blockquote" || node.type === "list" || node.type === "listItem") {
+    node.children?.forEach((child) => collectParagraphs(child, paragraphs));
+  }
+}
+
+function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+
+  const window = text.slice(0, maxLength + 1);
+  const sentenceEnds = Array.from(window.matchAll(/[.!?](?=\s)/g));
+  const lastSentenceEnd = sentenceEnds.at(-1)?.index;
+  if (lastSentenceEnd !== undefined && lastSentenceEnd + 1 >= MIN_SENTENCE_LENGTH) {
+    return window.slice(0, lastSentenceEnd + 1);
+  }
+
+  const lastSpace = window.lastIndexOf(" ");
+  return `${window.slice(0, lastSpace > 0 ? lastSpace : maxLength).replace(/[\s,;:—-]+$/, "")}…`;
+}
+
+/**
+ * Plain-text summary of a post body: the opening paragraphs with markdown
+ * stripped, cut at a sentence boundary where possible.
+ */
+export function createExcerpt(markdown: string, maxLength = MAX_LENGTH): string {
+  const paragraphs: string[] = [];
+  for (const block of splitAtBlocks(markdown)) {
+    collectParagraphs(parseMarkdown(block), paragraphs);
+    if (paragraphs.join(" ").length >= maxLength) break;
+  }
+
+  let text = "";
+  for (const paragraph of paragraphs) {
+    text = text ? `${text} ${paragraph}` : paragraph;
+    if (text.length >= maxLength) break;
+  }
+  return truncate(text, maxLength);
+}
@@ -0,0 +1,93 @@
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkGfm from "remark-gfm";
+import remarkRehype from "remark-rehype";
+import rehypeStringify from "rehype-stringify";
+
+/** The subset of the hast node shape the sanitizer relies on. */
+interface HtmlNode {
+  type: string;
+  tagName?: string;
+  properties?: Record<string, unknown>;
+  children?: HtmlNode[];
+}
+
+// Everything markdown can produce, minus anything interactive. Raw HTML in
+// posts is dropped before this point (remark-rehype ignores it by default).
+const ALLOWED_TAGS = new Set([
+  "a", "blockquote", "br", "code", "del", "em", "h1", "h2", "h3", "h4", "h5", "h6", "hr",
+  "img", "input", "li", "ol", "p", "pre", "section", "strong", "sup", "table", "tbody", "td",
+  "th", "thead", "tr", "ul",
+]);
+
+const ALLOWED_PROPERTIES: Record<string, string[]> = {
+  a: ["href", "title"],
+  img: ["src", "alt", "title"],
+  // Keeps `language-*` so readers that highlight code can
+  code: ["className"],
+  // GFM task list checkboxes
+  input: ["type", "checked", "disabled"],
+  td: ["align"],
+  th: ["align"],
+};
+
+const SAFE_PROTOCOLS = new Set(["http:", "https:", "mailto:"]);
+
+/** Resolves `url` against the post URL; `null` for anything that isn't a plain link. */
+function toAbsoluteUrl(url: unknown, baseUrl: string): string | null {
+  if (typeof url !== "string") return null;
+  try {
+    const resolved = new URL(url, baseUrl);
+    return SAFE_PROTOCOLS.has(resolved.protocol) ? resolved.href : null;
+  } catch {
+    return null;
+  }
+}
+
+function sanitize(node: HtmlNode, baseUrl: string): HtmlNode[] {
+  if (node.type === "text") return [node];
+  if (node.type !== "element" && node.type !== "root") return [];
+
+  const children = (node.children ?? []).flatMap((child) => sanitize(child, baseUrl));
+  if (node.type === "root") return [{ ...node, children }];
+
+  const tagName = node.tagName ?? "";
+  // Unknown elements are unwrapped rather than dropped so their text survives
+  if (!ALLOWED_TAGS.has(tagName)) return children;
+
+  const properties: Record<string, unknown> = {};
+  for (const name of ALLOWED_PROPERTIES[tagName] ?? []) {
+    const value = node.properties?.[name];
+    if (value === undefined) continue;
+    if (name === "href" || name === "src") {
+      const url = toAbsoluteUrl(value, baseUrl);
+      if (url) properties[name] = url;
+    } else {
+      properties[name] = value;
+    }
+  }
+
+  if (tagName === "img" && !properties.src) return [];
+  return [{ ...node, properties, children }];
+}
+
+function rehypeFeedSanitize({ baseUrl }: { baseUrl: string }) {
+  return (tree: HtmlNode) => sanitize(tree, baseUrl)[0];
+}
+
+/**
+ * Renders a post's markdown to self-contained HTML for feed readers: links and
+ * images point at absolute URLs on the site (in-page anchors included), code
+ * blocks keep their language class, and only plain markup survives.
+ */
+export function renderFeedHtml(markdown: string, postUrl: string): string {
+  return String(
+    unified()
+      .use(remarkParse)
+      .use(remarkGfm)
+      .use(remarkRehype)
+      .use(rehypeFeedSanitize, { baseUrl: postUrl })
+      .use(rehypeStringify)
+      .processSync(markdown)
+  );
+}
@@ -0,0 +1,350 @@
+import { notFound } from "next/navigation";
+import {
+  getAllCategories,
+  getAllPosts,
+  getAllTags,
+  getCanonicalUrl,
+  getPostsByCategory,
+  getPostsByTag,
+  type Post,
+} from "@/lib/posts";
+import { getCategory, getCategoryBySlug } from "@/lib/categories";
+import { renderFeedHtml } from "@/lib/feed-html";
+import { getAuthorHref, getAuthors, type Author } from "@/lib/authors";
+import { siteConfig, type SiteConfig } from "@/lib/site";
+
+/**
+ * One feed model rendered three ways: RSS 2.0 (`/rss.xml`), Atom
+ * (`/atom.xml`) and JSON Feed 1.1 (`/feed.json`). Routes build the model with
+ * `getFeed()` and pick a renderer, so the formats can't drift apart. Category
+ * and tag pages get the same three feeds under their own path, e.g.
+ * `/blog/category/database-internals/rss.xml` or `/tags/go/feed.json`.
+ */
+const siteUrl = siteConfig.url;
+
+export type FeedContentMode = SiteConfig["feed"]["content"];
+
+export function getFeedContentMode(): FeedContentMode {
+  return siteConfig.feed.content;
+}
+
+export const FEED_FORMATS = {
+  rss: { path: "/rss.xml", type: "application/rss+xml", contentType: "application/xml" },
+  atom: { path: "/atom.xml", type: "application/atom+xml", contentType: "application/atom+xml" },
+  json: { path: "/feed.json", type: "application/feed+json", contentType: "application/feed+json" },
+} as const;
+
+export type FeedFormat = keyof typeof FEED_FORMATS;
+
+export interface FeedAuthor {
+  name: string;
+  /** The author's page on the site. */
+  url: string;
+  avatar: string;
+}
+
+export interface FeedItem {
+  /** Permanent, unique id; the post URL, which never changes for a slug. */
+  id: string;
+  /** The canonical URL, which for cross-posts is the original article. */
+  url: string;
+  title: string;
+  summary: string;
+  /** The whole post as sanitized HTML; `null` for summary-only feeds. */
+  contentHtml: string | null;
+  published: number;
+  updated: number;
+  /** The category first, then the tags. */
+  categories: string[];
+  authors: FeedAuthor[];
+}
+
+export interface Feed {
+  title: string;
+  description: string;
+  siteUrl: string;
+  /** Page the feed mirrors: `""` for the whole site, or a category or tag page path. */
+  basePath: string;
+  language: string;
+  author: FeedAuthor;
+  /**
+   * Newest `updated` among the items, so the feed only changes when a post
+   * does. An empty feed uses the time it was built.
+   */
+  updated: number;
+  items: FeedItem[];
+}
+
+function toFeedAuthor(author: Author): FeedAuthor {
+  return {
+    name: author.name,
+    url: `${siteUrl}${getAuthorHref(author.id)}`,
+    avatar: `${siteUrl}${author.avatar}`,
+  };
+}
+
+function toFeedItem(post: Post, contentMode: FeedContentMode): FeedItem {
+  const postUrl = `${siteUrl}/blog/${post.slug}`;
+
+  return {
+    id: postUrl,
+    url: getCanonicalUrl(post),
+    title: post.title,
+    summary: post.excerpt,
+    contentHtml: contentMode === "full" ? renderFeedHtml(post.content, postUrl) : null,
+    published: post.timestamp,
+    updated: post.updatedAt,
+    categories: [post.category, ...post.tags.map((tag) => tag.name)],
+    authors: getAuthors(post.authors).map(toFeedAuthor),
+  };
+}
+
+function buildFeed(basePath: string, title: string, description: string, posts: Post[]): Feed {
+  const contentMode = getFeedContentMode();
+  const items = posts.map((post) => toFeedItem(post, contentMode));
+
+  return {
+    title,
+    description,
+    siteUrl,
+    basePath,
+    language: siteConfig.language,
+    author: toFeedAuthor(siteConfig.author),
+    updated: items.length > 0 ? Math.max(...items.map((item) => item.updated)) : Date.now(),
+    items,
+  };
+}
+
+const siteTitle = siteConfig.feed.title;
+
+export function getFeed(): Feed {
+  return buildFeed("", siteTitle, siteConfig.feed.description, getAllPosts());
+}
+
+export function getCategoryFeed(slug: string): Feed | null {
+  const category = getCategoryBySlug(slug);
+  if (!category) return null;
+
+  return buildFeed(
+    `/blog/category/${category.slug}`,
+    `${siteTitle} · ${category.name}`,
+    category.description,
+    getPostsByCategory(slug)
+  );
+}
+
+export function getTagFeed(slug: string): Feed | null {
+  const tag = getAllTags().find((summary) => summary.slug === slug);
+  if (!tag) return null;
+
+  return buildFeed(
+    `/tags/${tag.slug}`,
+    `${siteTitle} · #${tag.name}`,
+    `Posts tagged ${tag.name}.`,
+    getPostsByTag(slug)
+  );
+}
+
+// Category and tag feed routes, keyed by the dynamic segment each one lives under
+const FEED_SCOPES = {
+  category: {
+    param: "slug",
+    getSlugs: () =>
+      getAllCategories().flatMap((name) => {
+        const category = getCategory(name);
+        return category ? [category.slug] : [];
+      }),
+    getFeed: getCategoryFeed,
+  },
+  tag: {
+    param: "tag",
+    getSlugs: () => getAllTags().map((tag) => tag.slug),
+    getFeed: getTagFeed,
+  },
+};
+
+export type FeedScope = keyof typeof FEED_SCOPES;
+
+/**
+ * `GET` and `generateStaticParams` for one category or tag feed, e.g.
+ * `app/tags/[tag]/atom.xml/route.ts`. Each feed is rendered once per category
+ * or tag at build time and served as a static file; the route file sets
+ * `dynamic` and `dynamicParams` for that itself, since Next only reads route
+ * segment config from there.
+ */
+export function createFeedRoute(scope: FeedScope, format: FeedFormat) {
+  const { param, getSlugs, getFeed } = FEED_SCOPES[scope];
+
+  return {
+    generateStaticParams: () => getSlugs().map((slug) => ({ [param]: slug })),
+    GET: async (_request: Request, { params }: { params: Promise<Record<string, string>> }) => {
+      const feed = getFeed((await params)[param]);
+
+      if (!feed) {
+        notFound();
+      }
+
+      return createFeedResponse(format, feed);
+    },
+  };
+}
+
+/** Site-relative feed path for a page, e.g. `/tags/go/atom.xml`; the site feed when `basePath` is empty. */
+export function getFeedPath(format: FeedFormat, basePath = ""): string {
+  return `${basePath}${FEED_FORMATS[format].path}`;
+}
+
+function getFeedUrl(feed: Feed, format: FeedFormat): string {
+  return `${feed.siteUrl}${getFeedPath(format, feed.basePath)}`;
+}
+
+function escapeXml(str: string): string {
+  return str
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// A CDATA section can't contain its own terminator, so split it across two sections
+function toCdata(str: string): string {
+  return `<![CDATA[${str.replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+}
+
+function toIsoString(timestamp: number): string {
+  return new Date(timestamp).toISOString();
+}
+
+function renderRss(feed: Feed): string {
+  const items = feed.items
+    .map(
+      (item) => `
+    <item>
+      <title>${escapeXml(item.title)}</title>
+      <link>${item.url}</link>
+      <guid isPermaLink="true">${item.id}</guid>
+      <pubDate>${new Date(item.published).toUTCString()}</pubDate>
+${item.authors.map((author) => `      <dc:creator>${escapeXml(author.name)}</dc:creator>`).join("\n")}
+${item.categories.map((category) => `      <category>${escapeXml(category)}</category>`).join("\n")}
+      <description>${escapeXml(item.summary)}</description>${
+        item.contentHtml ? `\n      <content:encoded>${toCdata(item.contentHtml)}</content:encoded>` : ""
+      }
+    </item>`
+    )
+    .join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>${escapeXml(feed.title)}</title>
+    <link>${feed.siteUrl}${feed.basePath}</link>
+    <description>${escapeXml(feed.description)}</description>
+    <language>${feed.language.toLowerCase()}</language>
+    <lastBuildDate>${new Date(feed.updated).toUTCString()}</lastBuildDate>
+    <atom:link href="${getFeedUrl(feed, "rss")}" rel="self" type="${FEED_FORMATS.rss.type}"/>
+    ${items}
+  </channel>
+</rss>`;
+}
+
+function renderAtom(feed: Feed): string {
+  const entries = feed.items
+    .map(
+      (item) => `
+  <entry>
+    <id>${item.id}</id>
+    <title>${escapeXml(item.title)}</title>
+    <link rel="alternate" type="text/html" href="${item.url}"/>
+    <published>${toIsoString(item.published)}</published>
+    <updated>${toIsoString(item.updated)}</updated>
+${item.authors
+  .map(
+    (author) => `    <author>
+      <name>${escapeXml(author.name)}</name>
+      <uri>${author.url}</uri>
+    </author>`
+  )
+  .join("\n")}
+${item.categories.map((category) => `    <category term="${escapeXml(category)}"/>`).join("\n")}
+    <summary type="text">${escapeXml(item.summary)}</summary>${
+      item.contentHtml ? `\n    <content type="html">${escapeXml(item.contentHtml)}</content>` : ""
+    }
+  </entry>`
+    )
+    .join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${feed.language}">
+  <id>${feed.siteUrl}${feed.basePath}/</id>
+  <title>${escapeXml(feed.title)}</title>
+  <subtitle>${escapeXml(feed.description)}</subtitle>
+  <link rel="alternate" type="text/html" href="${feed.siteUrl}${feed.basePath}"/>
+  <link rel="self" type="${FEED_FORMATS.atom.type}" href="${getFeedUrl(feed, "atom")}"/>
+  <updated>${toIsoString(feed.updated)}</updated>
+  <author>
+    <name>${escapeXml(feed.author.name)}</name>
+    <uri>${feed.author.url}</uri>
+  </author>
+  ${entries}
+</feed>`;
+}
+
+function renderJsonFeed(feed: Feed): string {
+  return JSON.stringify({
+    version: "https://jsonfeed.org/version/1.1",
+    title: feed.title,
+    home_page_url: `${feed.siteUrl}${feed.basePath}`,
+    feed_url: getFeedUrl(feed, "json"),
+    description: feed.description,
+    language: feed.language,
+    authors: [feed.author],
+    items: feed.items.map((item) => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      summary: item.summary,
+      ...(item.contentHtml ? { content_html: item.contentHtml } : { content_text: item.summary }),
+      date_published: toIsoString(item.published),
+      date_modified: toIsoString(item.updated),
+      authors: item.authors,
+      tags: item.categories,
+    })),
+  });
+}
+
+const renderers: Record<FeedFormat, (feed: Feed) => string> = {
+  rss: renderRss,
+  atom: renderAtom,
+  json: renderJsonFeed,
+};
+
+export function createFeedResponse(format: FeedFormat, feed: Feed): Response {
+  return new Response(renderers[format](feed), {
+    headers: {
+      "Content-Type": `${FEED_FORMATS[format].contentType}; charset=utf-8`,
+      "Cache-Control": "public, max-age=3600, s-maxage=3600",
+    },
+  });
+}
+
+const FEED_TITLES: Record<FeedFormat, string> = {
+  rss: "RSS Feed",
+  atom: "Atom Feed",
+  json: "JSON Feed",
+};
+
+/** `alternates.types` metadata so browsers and readers can discover a page's feeds. */
+export function getFeedAlternates(basePath = "", label?: string) {
+  return Object.fromEntries(
+    (Object.keys(FEED_FORMATS) as FeedFormat[]).map((format) => [
+      FEED_FORMATS[format].type,
+      [
+        {
+          url: getFeedPath(format, basePath),
+          title: label ? `${FEED_TITLES[format]} · ${label}` : FEED_TITLES[format],
+        },
+      ],
+    ])
+  );
+}
@@ -0,0 +1,107 @@
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkGfm from "remark-gfm";
+import { slugify } from "@/lib/slugify";
+
+/** The subset of the mdast node shape the helpers below rely on. */
+export interface MarkdownNode {
+  type: string;
+  value?: string;
+  depth?: number;
+  children?: MarkdownNode[];
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Returns a slug function that never hands out the same slug twice within a
+ * document: a second "Example" heading becomes "example-1", then "example-2".
+ */
+export function createSlugger(): (text: string) => string {
+  const seen = new Map<string, number>();
+  return (text) => {
+    const base = slugify(text) || "section";
+    let slug = base;
+    let count = seen.get(base) ?? 0;
+    while (seen.has(slug)) {
+      count++;
+      slug = `${base}-${count}`;
+    }
+    seen.set(base, count);
+    seen.set(slug, 0);
+    return slug;
+  };
+}
+
+function visitHeadings(node: MarkdownNode, visit: (heading: MarkdownNode) => void): void {
+  if (node.type === "heading") {
+    visit(node);
+    return;
+  }
+  node.children?.forEach((child) => visitHeadings(child, visit));
+}
+
+/**
+ * Remark plugin that gives every heading a stable, de-duplicated `id` during
+ * rendering. The table of contents runs the same plugin, so its anchors always
+ * match the rendered headings.
+ */
+export function remarkHeadingIds() {
+  return (tree: MarkdownNode) => {
+    const slug = createSlugger();
+    visitHeadings(tree, (heading) => {
+      const id = slug(toPlainText(heading));
+      heading.data = {
+        ...heading.data,
+        id,
+        hProperties: { ...(heading.data?.hProperties as object | undefined), id },
+      };
+    });
+  };
+}
+
+const parser = unified().use(remarkParse).use(remarkGfm).use(remarkHeadingIds);
+
+export function parseMarkdown(markdown: string): MarkdownNode {
+  return parser.runSync(parser.parse(markdown)) as MarkdownNode;
+}
+
+export function getHeadings(tree: MarkdownNode): { id: string; text: string; depth: number }[] {
+  const headings: { id: string; text: string; depth: number }[] = [];
+  visitHeadings(tree, (heading) => {
+    headings.push({
+      id: heading.data?.id as string,
+      text: toPlainText(heading).trim(),
+      depth: heading.depth ?? 1,
+    });
+  });
+  return headings;
+}
+
+// Inline nodes that carry no readable text of their own
+const SILENT_NODES = new Set(["image", "imageReference", "html", "footnoteReference"]);
+
+// Nodes whose children are runs of inline text, which already carry their own
+// spacing ("a **b** c"); joining them with spaces would change heading ids
+const PHRASING_PARENTS = new Set([
+  "paragraph",
+  "heading",
+  "tableCell",
+  "emphasis",
+  "strong",
+  "delete",
+  "link",
+  "linkReference",
+]);
+
+/**
+ * Readable text of a node, with markup, images and raw HTML dropped. Block
+ * children such as list items or paragraphs are separated by a space.
+ */
+export function toPlainText(node: MarkdownNode): string {
+  if (SILENT_NODES.has(node.type)) return "";
+  if (node.type === "break") return " ";
+  if (typeof node.value === "string") return node.value;
+  return (node.children ?? [])
+    .map(toPlainText)
+    .join(PHRASING_PARENTS.has(node.type) ? "" : " ");
+}
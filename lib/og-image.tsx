@@ -0,0 +1,182 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { ImageResponse } from "next/og";
+import { fallbackCategoryColors } from "@/lib/categories";
+import { siteConfig } from "@/lib/site";
+import { formatAuthorNames, type Author } from "@/lib/authors";
+
+/**
+ * Shared layout for the generated Open Graph cards (`opengraph-image.tsx`
+ * next to the home, post, category and tag pages). Every card is rendered
+ * once at build time: a colored eyebrow, the title in Fraunces, a line of
+ * details in Geist and the author in the footer.
+ */
+export const OG_IMAGE_SIZE = { width: 1200, height: 630 };
+
+export const OG_IMAGE_CONTENT_TYPE = "image/png";
+
+export interface OgImageContent {
+  /** Small label above the title, e.g. the post's category. */
+  eyebrow: string;
+  title: string;
+  /** Shown under the title, joined with a middle dot. */
+  details: string[];
+  /** Accent for the eyebrow and the top bar; the site's accent by default. */
+  color?: string;
+  /** Credited in the footer; the site owner by default. */
+  authors?: Author[];
+}
+
+// The dark theme from globals.css, written out since images can't read CSS variables
+const palette = {
+  background: "#100E18",
+  foreground: "#F0EEEA",
+  muted: "#8A8797",
+  border: "#2A2830",
+  accent: "#C2367F",
+};
+
+const GEIST_DIR = join(process.cwd(), "node_modules/geist/dist/fonts/geist-sans");
+// next/font only hands out woff2, which the image renderer can't read, so the
+// Latin subset of Fraunces is checked in as a TTF (SIL OFL, see OFL.txt there).
+const FRAUNCES_FILE = join(process.cwd(), "assets/fonts/Fraunces-SemiBold.ttf");
+
+type ImageOptions = NonNullable<ConstructorParameters<typeof ImageResponse>[1]>;
+type OgFont = NonNullable<ImageOptions["fonts"]>[number];
+
+async function loadGeist(weight: 400 | 600): Promise<OgFont> {
+  const file = weight === 400 ? "Geist-Regular.ttf" : "Geist-SemiBold.ttf";
+  return { name: "Geist", data: await readFile(join(GEIST_DIR, file)), weight, style: "normal" };
+}
+
+async function loadFraunces(): Promise<OgFont> {
+  return { name: "Fraunces", data: await readFile(FRAUNCES_FILE), weight: 600, style: "normal" };
+}
+
+let fontsPromise: Promise<OgFont[]> | null = null;
+
+function loadFonts(): Promise<OgFont[]> {
+  fontsPromise ??= Promise.all([loadGeist(400), loadGeist(600), loadFraunces()]);
+  return fontsPromise;
+}
+
+async function loadAvatar(avatar: string): Promise<string> {
+  const data = await readFile(join(process.cwd(), "public", avatar));
+  // author.png is a JPEG despite its name; sniff the bytes rather than trust it
+  const isPng = data[0] === 0x89 && data[1] === 0x50;
+  return `data:image/${isPng ? "png" : "jpeg"};base64,${data.toString("base64")}`;
+}
+
+function getTitleSize(title: string): number {
+  if (title.length > 80) return 56;
+  if (title.length > 50) return 64;
+  return 76;
+}
+
+export async function renderOgImage({
+  eyebrow,
+  title,
+  details,
+  color = palette.accent,
+  authors = [siteConfig.author],
+}: OgImageContent): Promise<ImageResponse> {
+  const [fonts, avatars] = await Promise.all([
+    loadFonts(),
+    Promise.all(authors.map((author) => loadAvatar(author.avatar))),
+  ]);
+  const eyebrowColor = color === fallbackCategoryColors.hex ? palette.muted : color;
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          flexDirection: "column",
+          backgroundColor: palette.background,
+          color: palette.foreground,
+          fontFamily: "Geist",
+        }}
+      >
+        <div style={{ display: "flex", height: 8, backgroundColor: color }} />
+        <div
+          style={{
+            display: "flex",
+            flex: 1,
+            flexDirection: "column",
+            justifyContent: "space-between",
+            padding: "64px 80px 56px",
+          }}
+        >
+          <div style={{ display: "flex", flexDirection: "column", gap: 28 }}>
+            <div
+              style={{
+                display: "flex",
+                fontSize: 24,
+                fontWeight: 600,
+                letterSpacing: "0.2em",
+                textTransform: "uppercase",
+                color: eyebrowColor,
+              }}
+            >
+              {eyebrow}
+            </div>
+            <div
+              style={{
+                display: "flex",
+                fontFamily: "Fraunces, Geist",
+                fontSize: getTitleSize(title),
+                fontWeight: 600,
+                lineHeight: 1.12,
+                letterSpacing: "-0.02em",
+              }}
+            >
+              {title}
+            </div>
+            {details.length > 0 && (
+              <div style={{ display: "flex", fontSize: 28, color: palette.muted }}>
+                {details.join("  ·  ")}
+              </div>
+            )}
+          </div>
+          <div
+            style={{
+              display: "flex",
+              alignItems: "center",
+              gap: 20,
+              paddingTop: 32,
+              borderTop: `1px solid ${palette.border}`,
+            }}
+          >
+            <div style={{ display: "flex" }}>
+              {avatars.map((avatar, i) => (
+                <img
+                  key={i}
+                  src={avatar}
+                  width={56}
+                  height={56}
+                  alt=""
+                  style={{
+                    borderRadius: 28,
+                    border: `3px solid ${palette.background}`,
+                    marginLeft: i === 0 ? 0 : -16,
+                  }}
+                />
+              ))}
+            </div>
+            <div style={{ display: "flex", flexDirection: "column" }}>
+              <div style={{ display: "flex", fontSize: 26, fontWeight: 600 }}>
+                {formatAuthorNames(authors)}
+              </div>
+              <div style={{ display: "flex", fontSize: 22, color: palette.muted }}>
+                {siteConfig.domain}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    ),
+    { ...OG_IMAGE_SIZE, fonts }
+  );
+}
@@ -0,0 +1,46 @@
+/**
+ * Page size for paginated post lists. `BLOG_PAGE_SIZE` overrides the default;
+ * it's read at build time, so changing it means rebuilding the static pages.
+ */
+const DEFAULT_PAGE_SIZE = 10;
+
+export function getPageSize(): number {
+  const size = Number(process.env.BLOG_PAGE_SIZE);
+  return Number.isInteger(size) && size > 0 ? size : DEFAULT_PAGE_SIZE;
+}
+
+export function getPageCount(itemCount: number, pageSize: number): number {
+  return Math.max(1, Math.ceil(itemCount / pageSize));
+}
+
+export function getPageItems<T>(items: T[], page: number, pageSize: number): T[] {
+  return items.slice((page - 1) * pageSize, page * pageSize);
+}
+
+/** Parses a page number from a route segment or query string; `null` if it isn't one. */
+export function parsePageNumber(value: string | null | undefined): number | null {
+  if (!value || !/^\d+$/.test(value)) return null;
+  const page = Number(value);
+  return page >= 1 ? page : null;
+}
+
+/** Page 1 of the blog index lives at `/blog`; later pages at `/blog/page/<n>`. */
+export function getBlogPageHref(page: number): string {
+  return page <= 1 ? "/blog" : `/blog/page/${page}`;
+}
+
+/**
+ * Page numbers to show around the current page, with `null` marking a gap:
+ * `[1, null, 4, 5, 6, null, 12]`.
+ */
+export function getPageWindow(page: number, pageCount: number, radius = 1): (number | null)[] {
+  const pages: (number | null)[] = [];
+  for (let n = 1; n <= pageCount; n++) {
+    if (n === 1 || n === pageCount || Math.abs(n - page) <= radius) {
+      pages.push(n);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+}
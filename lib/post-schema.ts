@@ -0,0 +1,195 @@
+import { z } from "zod";
+import { CATEGORY_NAMES } from "@/lib/categories";
+import { authors, getAuthor } from "@/lib/authors";
+import { POST_DATE_PATTERN, isCalendarDate, parseDateTime, parsePostDate } from "@/lib/dates";
+
+// YAML turns unquoted dates into Date objects; fold them back into strings
+// so both spellings go through the same validation.
+const postDate = z.preprocess(
+  (value) => (value instanceof Date ? value.toISOString().slice(0, 10) : value),
+  z
+    .string({ required_error: "Required", invalid_type_error: "Expected a date string" })
+    .regex(POST_DATE_PATTERN, "Expected an ISO date (YYYY-MM-DD)")
+    .refine(isCalendarDate, "Not a valid calendar date")
+);
+
+// Either a calendar day (midnight UTC) or a full ISO timestamp with an offset,
+// e.g. "2026-11-02T09:00:00+02:00".
+const dateOrDateTime = z.preprocess(
+  (value) => (value instanceof Date ? value.toISOString() : value),
+  z
+    .string({ invalid_type_error: "Expected a date or datetime string" })
+    .refine(
+      (value) => isCalendarDate(value) || z.string().datetime({ offset: true }).safeParse(value).success,
+      "Expected an ISO date (YYYY-MM-DD) or datetime (YYYY-MM-DDTHH:mm:ssZ)"
+    )
+);
+
+const authorId = z
+  .string({ invalid_type_error: "Expected an author id" })
+  .refine(
+    (id) => getAuthor(id) !== null,
+    (id) => ({
+      message: `Unknown author "${id}"; expected one of: ${authors
+        .map((author) => author.id)
+        .join(", ")} (see content/authors.json)`,
+    })
+  );
+
+export const postFrontmatterSchema = z
+  .object({
+    title: z
+      .string({ required_error: "Required", invalid_type_error: "Expected a string" })
+      .trim()
+      .min(1, "Must not be empty"),
+    description: z
+      .string({ invalid_type_error: "Expected a string" })
+      .trim()
+      .min(1, "Must not be empty")
+      .optional(),
+    date: postDate,
+    // One author, or several for co-written posts; the site owner when omitted
+    author: authorId.optional(),
+    authors: z
+      .array(authorId, { invalid_type_error: "Expected a list of author ids" })
+      .min(1, "List at least one author")
+      .optional(),
+    category: z.enum(CATEGORY_NAMES, {
+      errorMap: () => ({
+        message: `Unknown category; expected one of: ${CATEGORY_NAMES.join(", ")} (see lib/categories.ts)`,
+      }),
+    }),
+    readTime: z
+      .string({ invalid_type_error: "Expected a string" })
+      .regex(/^\d+ min read$/, 'Expected the form "N min read"')
+      .optional(),
+    draft: z.boolean({ invalid_type_error: "Expected true or false" }).optional(),
+    publishAt: dateOrDateTime.optional(),
+    updated: dateOrDateTime.optional(),
+    series: z
+      .string({ invalid_type_error: "Expected a string" })
+      .trim()
+      .min(1, "Must not be empty")
+      .optional(),
+    seriesOrder: z
+      .number({ invalid_type_error: "Expected a number" })
+      .int("Expected a whole number")
+      .positive("Expected a number starting at 1")
+      .optional(),
+    tags: z
+      .array(z.string({ invalid_type_error: "Expected a string" }).trim().min(1, "Must not be empty"), {
+        invalid_type_error: "Expected a list of strings",
+      })
+      .optional(),
+    // Slugs of posts to show first under "Related posts", in this order
+    related: z
+      .array(z.string({ invalid_type_error: "Expected a string" }).trim().min(1, "Must not be empty"), {
+        invalid_type_error: "Expected a list of post slugs",
+      })
+      .optional(),
+    // Original home of a cross-posted article, e.g. its dev.to or Medium URL
+    canonicalUrl: z
+      .string({ invalid_type_error: "Expected a string" })
+      .trim()
+      .refine(
+        (value) => /^https?:\/\//.test(value) && z.string().url().safeParse(value).success,
+        "Expected an absolute http(s) URL"
+      )
+      .optional(),
+  })
+  .strict();
+
+const fields = postFrontmatterSchema.shape;
+
+// Checks spanning several fields run on their own, over whichever dates are
+// valid and whichever fields are present, so they are reported alongside any
+// per-field issues rather than only once everything else passes. Frontmatter
+// that isn't an object is already reported by postFrontmatterSchema.
+const crossFieldSchema = z.preprocess(
+  (value) => (typeof value === "object" && value !== null ? value : {}),
+  z
+    .object({
+      date: fields.date.optional().catch(undefined),
+      updated: fields.updated.catch(undefined),
+      // Only their presence matters here; their values are checked above
+      author: z.unknown(),
+      authors: z.unknown(),
+      series: z.unknown(),
+      seriesOrder: z.unknown(),
+    })
+    .superRefine((data, ctx) => {
+      if (data.date && data.updated && parseDateTime(data.updated) < parsePostDate(data.date).timestamp) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["updated"],
+          message: "Must not be before date",
+        });
+      }
+      if (data.author && data.authors) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["authors"],
+          message: "Use either author or authors, not both",
+        });
+      }
+      if (data.series && data.seriesOrder === undefined) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["seriesOrder"],
+          message: "Required when series is set",
+        });
+      }
+      if (!data.series && data.seriesOrder !== undefined) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["series"],
+          message: "Required when seriesOrder is set",
+        });
+      }
+    })
+);
+
+export type PostFrontmatter = z.infer<typeof postFrontmatterSchema>;
+
+export interface PostIssue {
+  file: string;
+  field: string;
+  message: string;
+}
+
+export class PostValidationError extends Error {
+  readonly issues: PostIssue[];
+
+  constructor(issues: PostIssue[]) {
+    const files = new Set(issues.map((issue) => issue.file));
+    const lines = issues.map((issue) => `  ${issue.file} → ${issue.field}: ${issue.message}`);
+    super(
+      `Invalid frontmatter in ${files.size} post${files.size === 1 ? "" : "s"}:\n${lines.join("\n")}`
+    );
+    this.name = "PostValidationError";
+    this.issues = issues;
+  }
+}
+
+export function validateFrontmatter(
+  file: string,
+  data: unknown
+): { frontmatter: PostFrontmatter; issues: [] } | { frontmatter: null; issues: PostIssue[] } {
+  const result = postFrontmatterSchema.safeParse(data);
+  const crossFieldResult = crossFieldSchema.safeParse(data);
+  if (result.success && crossFieldResult.success) {
+    return { frontmatter: result.data, issues: [] };
+  }
+
+  const zodIssues = [
+    ...(result.success ? [] : result.error.issues),
+    ...(crossFieldResult.success ? [] : crossFieldResult.error.issues),
+  ];
+  const issues = zodIssues.flatMap((issue): PostIssue[] => {
+    if (issue.code === "unrecognized_keys") {
+      return issue.keys.map((key) => ({ file, field: key, message: "Unknown field" }));
+    }
+    return [{ file, field: issue.path.join(".") || "(root)", message: issue.message }];
+  });
+  return { frontmatter: null, issues };
+}
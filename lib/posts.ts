@@ -1,71 +1,354 @@
 import fs from "fs";
 import path from "path";
 import matter from "gray-matter";
+import { parseDateTime, parsePostDate } from "@/lib/dates";
+import { slugify } from "@/lib/slugify";
+import { createExcerpt } from "@/lib/excerpt";
+import { formatReadTime, getReadingStats, parseReadTime } from "@/lib/reading-time";
+import { getCategoryBySlug, type PostCategory } from "@/lib/categories";
+import { PostValidationError, validateFrontmatter, type PostIssue } from "@/lib/post-schema";
+import { DEFAULT_AUTHOR_ID, authorIssues } from "@/lib/authors";
+import { absoluteUrl } from "@/lib/site";
 
 const postsDirectory = path.join(process.cwd(), "content/posts");
 
+// Post files are named after their slug, so anything else can't be one
+const POST_SLUG_PATTERN = /^[a-z0-9-]+$/;
+
+/** Whether `slug` could name a post, checked before it goes anywhere near the filesystem. */
+export function isPostSlug(slug: string): boolean {
+  return POST_SLUG_PATTERN.test(slug);
+}
+
+/**
+ * `draft` posts are hidden until the flag is removed; `scheduled` posts go live
+ * on their `publishAt` (or future `date`) at the next build after that moment.
+ */
+export type PostStatus = "published" | "draft" | "scheduled";
+
+export interface PostSeriesRef {
+  name: string;
+  slug: string;
+  order: number;
+}
+
+export interface PostTag {
+  name: string;
+  slug: string;
+}
+
+export interface TagSummary extends PostTag {
+  count: number;
+}
+
 export interface Post {
   slug: string;
   title: string;
+  /** Plain-text summary: the frontmatter `description`, or one derived from the body. */
+  excerpt: string;
+  /** Publication day as zero-padded `YYYY-MM-DD`. */
   date: string;
+  /** Publication day as milliseconds since the epoch (midnight UTC). */
+  timestamp: number;
+  /** Display string, e.g. "12 min read"; the frontmatter value wins when set. */
   readTime: string;
-  category: string;
+  readingMinutes: number;
+  wordCount: number;
+  codeLineCount: number;
+  category: PostCategory;
+  /** Author ids in byline order; see lib/authors.ts. */
+  authors: string[];
+  status: PostStatus;
+  /** When the post becomes visible, in milliseconds since the epoch. */
+  publishAt: number;
+  /** Last substantial revision (frontmatter `updated`), or the publication day if never revised. */
+  updatedAt: number;
+  series: PostSeriesRef | null;
+  tags: PostTag[];
+  /** Slugs pinned to the top of this post's related posts. */
+  related: string[];
+  /** Where the post was first published when it is a cross-post; `null` when it started here. */
+  canonicalUrl: string | null;
   content: string;
 }
 
-export function getAllPosts(): Post[] {
-  // Get all markdown files from content/posts
-  const fileNames = fs.readdirSync(postsDirectory);
-  const allPosts = fileNames
-    .filter((fileName) => fileName.endsWith(".md"))
-    .map((fileName) => {
-      const slug = fileName.replace(/\.md$/, "");
-      const fullPath = path.join(postsDirectory, fileName);
-      const fileContents = fs.readFileSync(fullPath, "utf8");
-      const { data, content } = matter(fileContents);
-
-      return {
-        slug,
-        title: data.title,
-        date: data.date,
-        readTime: data.readTime || "5 min read",
-        category: data.category || "Uncategorized",
-        content,
-      };
-    });
-
-  // Sort posts by date (newest first)
-  return allPosts.sort((a, b) => (a.date > b.date ? -1 : 1));
-}
-
-export function getPostBySlug(slug: string): Post | null {
-  try {
-    const fullPath = path.join(postsDirectory, `${slug}.md`);
-    const fileContents = fs.readFileSync(fullPath, "utf8");
-    const { data, content } = matter(fileContents);
-
-    return {
+/** Everything list pages need about a post, without the markdown body. */
+export type PostSummary = Omit<Post, "content">;
+
+/** A post known to be part of a series. */
+export type SeriesPost = Post & { series: PostSeriesRef };
+
+export interface Series {
+  name: string;
+  slug: string;
+  /** Parts in reading order. */
+  posts: SeriesPost[];
+}
+
+export interface PostQueryOptions {
+  /** Include drafts and scheduled posts. Defaults to `showsUnpublishedPosts()`. */
+  includeUnpublished?: boolean;
+  /** Include this one post even if unpublished, for a verified preview link. */
+  previewSlug?: string;
+}
+
+/**
+ * Unpublished posts are listed, badged, in `next dev` and in preview
+ * deployments (`BLOG_PREVIEW=true`), and never in a production build.
+ */
+export function showsUnpublishedPosts(): boolean {
+  return process.env.NODE_ENV === "development" || process.env.BLOG_PREVIEW === "true";
+}
+
+function isVisible(
+  post: Post,
+  { includeUnpublished = showsUnpublishedPosts(), previewSlug }: PostQueryOptions
+) {
+  return includeUnpublished || post.status === "published" || post.slug === previewSlug;
+}
+
+type ParsedPost = { post: Post; issues: [] } | { post: null; issues: PostIssue[] };
+
+// Excerpts need a markdown parse and `getAllPosts` runs many times per build,
+// so they are kept until the post's content changes.
+const excerptCache = new Map<string, { content: string; excerpt: string }>();
+
+function getExcerpt(slug: string, content: string): string {
+  const cached = excerptCache.get(slug);
+  if (cached && cached.content === content) return cached.excerpt;
+
+  const excerpt = createExcerpt(content);
+  excerptCache.set(slug, { content, excerpt });
+  return excerpt;
+}
+
+function readPost(fileName: string): ParsedPost {
+  const slug = fileName.replace(/\.md$/, "");
+  const fullPath = path.join(postsDirectory, fileName);
+  const fileContents = fs.readFileSync(fullPath, "utf8");
+  const { data, content } = matter(fileContents);
+
+  const { frontmatter, issues } = validateFrontmatter(
+    path.join("content/posts", fileName),
+    data
+  );
+  if (!frontmatter) {
+    return { post: null, issues };
+  }
+  const date = parsePostDate(frontmatter.date);
+  const stats = getReadingStats(content);
+  const publishAt = frontmatter.publishAt
+    ? parseDateTime(frontmatter.publishAt)
+    : date.timestamp;
+  const status: PostStatus = frontmatter.draft
+    ? "draft"
+    : publishAt > Date.now()
+      ? "scheduled"
+      : "published";
+  const readingMinutes = frontmatter.readTime
+    ? parseReadTime(frontmatter.readTime)
+    : stats.minutes;
+
+  return {
+    post: {
       slug,
-      title: data.title,
-      date: data.date,
-      readTime: data.readTime || "5 min read",
-      category: data.category || "Uncategorized",
+      title: frontmatter.title,
+      excerpt: frontmatter.description ?? getExcerpt(slug, content),
+      date: date.iso,
+      timestamp: date.timestamp,
+      readTime: formatReadTime(readingMinutes),
+      readingMinutes,
+      wordCount: stats.wordCount,
+      codeLineCount: stats.codeLineCount,
+      category: frontmatter.category,
+      authors: Array.from(
+        new Set(frontmatter.authors ?? [frontmatter.author ?? DEFAULT_AUTHOR_ID])
+      ),
+      status,
+      publishAt,
+      updatedAt: frontmatter.updated ? parseDateTime(frontmatter.updated) : date.timestamp,
+      series: frontmatter.series
+        ? {
+            name: frontmatter.series,
+            slug: slugify(frontmatter.series),
+            order: frontmatter.seriesOrder ?? 1,
+          }
+        : null,
+      tags: normalizeTags(frontmatter.tags ?? []),
+      related: Array.from(new Set(frontmatter.related ?? [])),
+      canonicalUrl: frontmatter.canonicalUrl ?? null,
       content,
-    };
-  } catch (error) {
-    return null;
+    },
+    issues: [],
+  };
+}
+
+function normalizeTags(names: string[]): PostTag[] {
+  const tags = new Map<string, PostTag>();
+  for (const name of names) {
+    const slug = slugify(name);
+    if (slug && !tags.has(slug)) {
+      tags.set(slug, { name, slug });
+    }
+  }
+  return Array.from(tags.values());
+}
+
+/** The URL search engines should index for a post: its original home, or its page here. */
+export function getCanonicalUrl(post: Pick<Post, "slug" | "canonicalUrl">): string {
+  return post.canonicalUrl ?? absoluteUrl(`/blog/${post.slug}`);
+}
+
+/** Whether the post is a copy of an article that lives elsewhere. */
+export function isCrossPost(post: Pick<Post, "slug" | "canonicalUrl">): boolean {
+  return getCanonicalUrl(post) !== absoluteUrl(`/blog/${post.slug}`);
+}
+
+export function toPostSummary({ content: _content, ...summary }: Post): PostSummary {
+  return summary;
+}
+
+function findSeriesIssues(posts: Post[]): PostIssue[] {
+  const seen = new Map<string, string>();
+  const issues: PostIssue[] = [];
+
+  for (const post of posts) {
+    if (!post.series) continue;
+    const key = `${post.series.slug}#${post.series.order}`;
+    const other = seen.get(key);
+    if (other) {
+      issues.push({
+        file: path.join("content/posts", `${post.slug}.md`),
+        field: "seriesOrder",
+        message: `Part ${post.series.order} of "${post.series.name}" is already taken by ${other}`,
+      });
+    } else {
+      seen.set(key, post.slug);
+    }
   }
+  return issues;
 }
 
-export function getAllSlugs(): string[] {
+function findRelatedIssues(posts: Post[]): PostIssue[] {
+  const slugs = new Set(posts.map((post) => post.slug));
+
+  return posts.flatMap((post) =>
+    post.related.flatMap((slug): PostIssue[] => {
+      const file = path.join("content/posts", `${post.slug}.md`);
+      if (slug === post.slug) {
+        return [{ file, field: "related", message: "A post can't be related to itself" }];
+      }
+      if (!slugs.has(slug)) {
+        return [{ file, field: "related", message: `No post with the slug "${slug}"` }];
+      }
+      return [];
+    })
+  );
+}
+
+export function getAllPosts(options: PostQueryOptions = {}): Post[] {
+  // Get all markdown files from content/posts
   const fileNames = fs.readdirSync(postsDirectory);
-  return fileNames
-    .filter((fileName) => fileName.endsWith(".md"))
-    .map((fileName) => fileName.replace(/\.md$/, ""));
+  const parsed = fileNames.filter((fileName) => fileName.endsWith(".md")).map(readPost);
+
+  const validPosts = parsed.flatMap((result) => (result.post ? [result.post] : []));
+
+  // Report every broken post at once instead of failing on the first one
+  const issues = [
+    ...authorIssues,
+    ...parsed.flatMap((result) => result.issues),
+    ...findSeriesIssues(validPosts),
+    ...findRelatedIssues(validPosts),
+  ];
+  if (issues.length > 0) {
+    throw new PostValidationError(issues);
+  }
+  const allPosts = validPosts.filter((post) => isVisible(post, options));
+
+  // Sort posts by date (newest first), falling back to slug for same-day posts
+  return allPosts.sort((a, b) => b.timestamp - a.timestamp || a.slug.localeCompare(b.slug));
+}
+
+export function getPostBySlug(slug: string, options: PostQueryOptions = {}): Post | null {
+  // Slugs come from URLs; only ever read a file that is actually in content/posts
+  const fileName = `${slug}.md`;
+  if (!isPostSlug(slug) || !fs.readdirSync(postsDirectory).includes(fileName)) {
+    return null;
+  }
+
+  const { post, issues } = readPost(fileName);
+  if (!post) {
+    throw new PostValidationError(issues);
+  }
+  return isVisible(post, options) ? post : null;
+}
+
+export function getAllSlugs(options: PostQueryOptions = {}): string[] {
+  return getAllPosts(options).map((post) => post.slug);
 }
 
-export function getAllCategories(): string[] {
-  const posts = getAllPosts();
+export function getAllCategories(options: PostQueryOptions = {}): PostCategory[] {
+  const posts = getAllPosts(options);
   const categories = new Set(posts.map((post) => post.category));
   return Array.from(categories).sort();
 }
+
+function isSeriesPost(post: Post): post is SeriesPost {
+  return post.series !== null;
+}
+
+export function getAllSeries(options: PostQueryOptions = {}): Series[] {
+  const bySlug = new Map<string, Series>();
+
+  for (const post of getAllPosts(options)) {
+    if (!isSeriesPost(post)) continue;
+    const series = bySlug.get(post.series.slug);
+    if (series) {
+      series.posts.push(post);
+    } else {
+      bySlug.set(post.series.slug, { name: post.series.name, slug: post.series.slug, posts: [post] });
+    }
+  }
+
+  return Array.from(bySlug.values())
+    .map((series) => ({
+      ...series,
+      posts: series.posts.sort((a, b) => a.series.order - b.series.order),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function getSeries(slug: string, options: PostQueryOptions = {}): Series | null {
+  return getAllSeries(options).find((series) => series.slug === slug) ?? null;
+}
+
+export function getAllTags(options: PostQueryOptions = {}): TagSummary[] {
+  const tags = new Map<string, TagSummary>();
+
+  for (const post of getAllPosts(options)) {
+    for (const tag of post.tags) {
+      const summary = tags.get(tag.slug);
+      if (summary) {
+        summary.count++;
+      } else {
+        tags.set(tag.slug, { ...tag, count: 1 });
+      }
+    }
+  }
+
+  return Array.from(tags.values()).sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+export function getPostsByTag(slug: string, options: PostQueryOptions = {}): Post[] {
+  return getAllPosts(options).filter((post) => post.tags.some((tag) => tag.slug === slug));
+}
+
+export function getPostsByAuthor(id: string, options: PostQueryOptions = {}): Post[] {
+  return getAllPosts(options).filter((post) => post.authors.includes(id));
+}
+
+export function getPostsByCategory(slug: string, options: PostQueryOptions = {}): Post[] {
+  const category = getCategoryBySlug(slug);
+  if (!category) return [];
+  return getAllPosts(options).filter((post) => post.category === category.name);
+}
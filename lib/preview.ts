@@ -0,0 +1,96 @@
+import crypto from "crypto";
+import { cookies, draftMode } from "next/headers";
+
+/**
+ * Preview links let reviewers open an unpublished post on a production
+ * deployment. A link carries a token signed with `PREVIEW_SECRET` for one slug
+ * and an expiry; `PREVIEW_TOKEN_TTL_HOURS` (default 72) controls how long newly
+ * created links stay valid. Without a secret, previews are disabled.
+ */
+const DEFAULT_TTL_HOURS = 72;
+
+// Holds the token a reviewer arrived with, so every request can check it again
+const PREVIEW_COOKIE = "blog-preview-token";
+
+export type PreviewTokenResult = "valid" | "invalid" | "expired" | "disabled";
+
+function getSecret(): string | null {
+  return process.env.PREVIEW_SECRET || null;
+}
+
+function getTtlHours(): number {
+  const ttl = Number(process.env.PREVIEW_TOKEN_TTL_HOURS);
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_TTL_HOURS;
+}
+
+function sign(secret: string, slug: string, expiresAt: number): string {
+  return crypto.createHmac("sha256", secret).update(`${slug}:${expiresAt}`).digest("base64url");
+}
+
+export function isPreviewEnabled(): boolean {
+  return getSecret() !== null;
+}
+
+export function createPreviewToken(slug: string, now = Date.now()): string | null {
+  const secret = getSecret();
+  if (!secret) return null;
+
+  const expiresAt = Math.floor(now / 1000) + Math.round(getTtlHours() * 3600);
+  return `${expiresAt}.${sign(secret, slug, expiresAt)}`;
+}
+
+export function verifyPreviewToken(slug: string, token: string, now = Date.now()): PreviewTokenResult {
+  const secret = getSecret();
+  if (!secret) return "disabled";
+
+  const [rawExpiresAt, signature] = token.split(".");
+  const expiresAt = Number(rawExpiresAt);
+  if (!Number.isInteger(expiresAt) || !signature) return "invalid";
+
+  const expected = Buffer.from(sign(secret, slug, expiresAt));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return "invalid";
+  }
+
+  return expiresAt * 1000 < now ? "expired" : "valid";
+}
+
+/**
+ * Turns on draft mode and remembers the (already verified) token until it
+ * expires. Draft mode on its own is site-wide and never expires, so pages
+ * must still ask `hasPreviewAccess` before showing anything unpublished.
+ */
+export async function startPreview(token: string): Promise<void> {
+  const expiresAt = Number(token.split(".")[0]);
+
+  (await draftMode()).enable();
+  (await cookies()).set(PREVIEW_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: new Date(expiresAt * 1000),
+  });
+}
+
+export async function endPreview(): Promise<void> {
+  (await draftMode()).disable();
+  (await cookies()).delete(PREVIEW_COOKIE);
+}
+
+/** Whether this request may see `slug` unpublished: the remembered token must be valid for it. */
+export async function hasPreviewAccess(slug: string): Promise<boolean> {
+  if (!(await draftMode()).isEnabled) return false;
+
+  const token = (await cookies()).get(PREVIEW_COOKIE)?.value;
+  return token !== undefined && verifyPreviewToken(slug, token) === "valid";
+}
+
+export function getPreviewUrl(siteUrl: string, slug: string): string | null {
+  const token = createPreviewToken(slug);
+  if (!token) return null;
+
+  const params = new URLSearchParams({ slug, token });
+  return `${siteUrl}/api/preview?${params}`;
+}
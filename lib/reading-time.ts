@@ -0,0 +1,74 @@
+// Average adult reading speed for technical prose.
+const PROSE_WORDS_PER_MINUTE = 230;
+// Code is scanned line by line rather than read word by word, so it gets a
+// flat per-line cost instead of counting towards the word total.
+const CODE_SECONDS_PER_LINE = 2;
+
+export interface ReadingStats {
+  wordCount: number;
+  codeLineCount: number;
+  minutes: number;
+}
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu;
+
+function stripProseMarkup(line: string): string {
+  return line
+    .replace(/<[^>]+>/g, " ")
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/https?:\/\/\S+/g, " ");
+}
+
+export function getReadingStats(markdown: string): ReadingStats {
+  let wordCount = 0;
+  let codeLineCount = 0;
+  let openFence: string | null = null;
+
+  for (const line of markdown.split(/\r?\n/)) {
+    const fence = FENCE_PATTERN.exec(line);
+    if (openFence) {
+      // A fence closes on a line using the same character, at least as long
+      if (fence && fence[1][0] === openFence[0] && fence[1].length >= openFence.length) {
+        openFence = null;
+      } else if (line.trim()) {
+        codeLineCount++;
+      }
+      continue;
+    }
+    if (fence) {
+      openFence = fence[1];
+      continue;
+    }
+    wordCount += stripProseMarkup(line).match(WORD_PATTERN)?.length ?? 0;
+  }
+
+  const minutes =
+    wordCount / PROSE_WORDS_PER_MINUTE + (codeLineCount * CODE_SECONDS_PER_LINE) / 60;
+
+  return {
+    wordCount,
+    codeLineCount,
+    minutes: Math.max(1, Math.round(minutes)),
+  };
+}
+
+export function formatReadTime(minutes: number): string {
+  return `${minutes} min read`;
+}
+
+export function parseReadTime(readTime: string): number {
+  return Number.parseInt(readTime, 10);
+}
+
+export function formatTotalReadingTime(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} min`;
+  return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+}
+
+export function sumReadingMinutes(posts: { readingMinutes: number }[]): number {
+  return posts.reduce((total, post) => total + post.readingMinutes, 0);
+}
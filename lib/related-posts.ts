@@ -0,0 +1,180 @@
+import { getHeadings, parseMarkdown, toPlainText } from "@/lib/markdown";
+import {
+  getAllPosts,
+  toPostSummary,
+  type Post,
+  type PostQueryOptions,
+  type PostSummary,
+} from "@/lib/posts";
+import { tokenize } from "@/lib/search";
+
+export interface RelatedPost {
+  post: PostSummary;
+  /** Short label explaining the pick, e.g. "Same series" or "Also about WAL". */
+  reason: string;
+}
+
+// How much one occurrence of a term counts towards a post's text vector
+const TEXT_WEIGHTS = {
+  title: 3,
+  heading: 2,
+  body: 1,
+};
+
+// Added on top of the text similarity, which ranges from 0 to 1
+const SERIES_BONUS = 0.5;
+const TAG_BONUS = 0.1;
+const CATEGORY_BONUS = 0.05;
+
+const DEFAULT_LIMIT = 3;
+
+// Parsing every post for every post page adds up, so term counts are kept
+// until the post's content changes.
+const termCache = new Map<string, { content: string; terms: Map<string, number> }>();
+
+function getTermCounts(post: Post): Map<string, number> {
+  const cached = termCache.get(post.slug);
+  if (cached && cached.content === post.content) return cached.terms;
+
+  const tree = parseMarkdown(post.content);
+  // Code is left out: shared keywords like `func` or `err` say little about the
+  // topic. Headings are weighted on their own below, so they stay out too.
+  const prose = (tree.children ?? [])
+    .filter((node) => node.type !== "code" && node.type !== "heading")
+    .map(toPlainText)
+    .join(" ");
+
+  const terms = new Map<string, number>();
+  const add = (text: string, weight: number) => {
+    for (const term of tokenize(text)) terms.set(term, (terms.get(term) ?? 0) + weight);
+  };
+  add(post.title, TEXT_WEIGHTS.title);
+  add(getHeadings(tree).map((heading) => heading.text).join(" "), TEXT_WEIGHTS.heading);
+  add(prose, TEXT_WEIGHTS.body);
+
+  termCache.set(post.slug, { content: post.content, terms });
+  return terms;
+}
+
+type Vector = Map<string, number>;
+
+function buildVectors(posts: Post[], counts: Map<string, number>[]): Map<string, Vector> {
+  const documentFrequency = new Map<string, number>();
+  for (const terms of counts) {
+    terms.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1));
+  }
+
+  const vectors = new Map<string, Vector>();
+  posts.forEach((post, i) => {
+    const vector: Vector = new Map();
+    let norm = 0;
+    counts[i].forEach((count, term) => {
+      const weight = (1 + Math.log(count)) * Math.log(posts.length / documentFrequency.get(term)!);
+      if (weight > 0) {
+        vector.set(term, weight);
+        norm += weight * weight;
+      }
+    });
+    norm = Math.sqrt(norm);
+    if (norm > 0) vector.forEach((weight, term) => vector.set(term, weight / norm));
+    vectors.set(post.slug, vector);
+  });
+  return vectors;
+}
+
+// Every post page of a build asks for the same vectors, so they are kept per set
+// of visible posts, until one of those posts' term counts changes.
+const vectorCache = new Map<string, { counts: Map<string, number>[]; vectors: Map<string, Vector> }>();
+
+function getVectors(posts: Post[]): Map<string, Vector> {
+  const key = posts.map((post) => post.slug).join("\n");
+  const counts = posts.map(getTermCounts);
+  const cached = vectorCache.get(key);
+  if (cached && cached.counts.every((terms, i) => terms === counts[i])) return cached.vectors;
+
+  const vectors = buildVectors(posts, counts);
+  vectorCache.set(key, { counts, vectors });
+  return vectors;
+}
+
+function cosineSimilarity(a: Vector, b: Vector): number {
+  const [small, large] = a.size < b.size ? [a, b] : [b, a];
+  let dot = 0;
+  small.forEach((weight, term) => {
+    dot += weight * (large.get(term) ?? 0);
+  });
+  return dot;
+}
+
+function isSameSeries(a: Post, b: Post): boolean {
+  return a.series !== null && a.series.slug === b.series?.slug;
+}
+
+function getSharedTags(a: Post, b: Post) {
+  return b.tags.filter((tag) => a.tags.some((other) => other.slug === tag.slug));
+}
+
+function getReason(
+  current: Post,
+  candidate: Post,
+  tagCounts: Map<string, number>,
+  pinned: boolean
+): string {
+  if (isSameSeries(current, candidate)) return "Same series";
+
+  // The rarest shared tag is the most telling one
+  const [tag] = getSharedTags(current, candidate).sort(
+    (a, b) => tagCounts.get(a.slug)! - tagCounts.get(b.slug)!
+  );
+  if (tag) return `Also about ${tag.name}`;
+  if (current.category === candidate.category) return `More on ${candidate.category}`;
+  return pinned ? "Recommended" : "Similar topic";
+}
+
+/**
+ * Posts most related to `slug`: the ones pinned in its `related` frontmatter
+ * first, then the rest ranked by TF-IDF similarity of titles, headings and
+ * prose, nudged up by a shared series, tags or category.
+ */
+export function getRelatedPosts(
+  slug: string,
+  options: PostQueryOptions = {},
+  limit = DEFAULT_LIMIT
+): RelatedPost[] {
+  const posts = getAllPosts(options);
+  const current = posts.find((post) => post.slug === slug);
+  if (!current) return [];
+
+  const vectors = getVectors(posts);
+  const tagCounts = new Map<string, number>();
+  for (const post of posts) {
+    for (const tag of post.tags) tagCounts.set(tag.slug, (tagCounts.get(tag.slug) ?? 0) + 1);
+  }
+
+  const bySlug = new Map(posts.map((post) => [post.slug, post]));
+  // Pinned posts may be hidden (drafts, scheduled) in this build
+  const pinned = current.related.flatMap((pinnedSlug) => bySlug.get(pinnedSlug) ?? []);
+
+  const ranked = posts
+    .filter((post) => post.slug !== slug && !current.related.includes(post.slug))
+    .map((post) => ({
+      post,
+      score:
+        cosineSimilarity(vectors.get(slug)!, vectors.get(post.slug)!) +
+        (isSameSeries(current, post) ? SERIES_BONUS : 0) +
+        getSharedTags(current, post).length * TAG_BONUS +
+        (current.category === post.category ? CATEGORY_BONUS : 0),
+    }))
+    .filter((candidate) => candidate.score > 0)
+    .sort((a, b) => b.score - a.score || b.post.timestamp - a.post.timestamp);
+
+  return [
+    ...pinned.map((post) => ({ post, pinned: true })),
+    ...ranked.map(({ post }) => ({ post, pinned: false })),
+  ]
+    .slice(0, limit)
+    .map(({ post, pinned: isPinned }) => ({
+      post: toPostSummary(post),
+      reason: getReason(current, post, tagCounts, isPinned),
+    }));
+}
@@ -0,0 +1,125 @@
+import { getHeadings, parseMarkdown, toPlainText, type MarkdownNode } from "@/lib/markdown";
+import type { Post } from "@/lib/posts";
+import {
+  SEARCH_INDEX_VERSION,
+  splitWords,
+  tokenize,
+  tokenizeWithPositions,
+  type SearchIndex,
+  type SearchSection,
+} from "@/lib/search";
+
+// How much one occurrence of a term counts, by where it appears
+const FIELD_WEIGHTS = {
+  title: 5,
+  heading: 3,
+  taxonomy: 3,
+  body: 1,
+  code: 0.5,
+};
+
+// Only the start of each section ships to the browser, enough to preview a hit
+const SNIPPET_LENGTH = 160;
+
+interface CollectedSection {
+  id: string | null;
+  heading: string;
+  paragraphs: string[];
+}
+
+interface CollectedText {
+  sections: CollectedSection[];
+  code: string[];
+}
+
+function collectText(node: MarkdownNode, collected: CollectedText): void {
+  if (node.type === "heading") {
+    collected.sections.push({
+      id: (node.data?.id as string | undefined) ?? null,
+      heading: toPlainText(node).trim(),
+      paragraphs: [],
+    });
+    return;
+  }
+  if (node.type === "code") {
+    collected.code.push(node.value ?? "");
+    return;
+  }
+  if (node.type === "paragraph" || node.type === "tableCell") {
+    collected.sections.at(-1)!.paragraphs.push(toPlainText(node).replace(/\s+/g, " ").trim());
+    return;
+  }
+  node.children?.forEach((child) => collectText(child, collected));
+}
+
+function toSnippet(text: string): string {
+  if (text.length <= SNIPPET_LENGTH) return text;
+  const end = text.lastIndexOf(" ", SNIPPET_LENGTH);
+  return `${text.slice(0, end > 0 ? end : SNIPPET_LENGTH)}…`;
+}
+
+function addTerms(weights: Map<string, number>, text: string, weight: number): void {
+  for (const term of tokenize(text)) {
+    weights.set(term, (weights.get(term) ?? 0) + weight);
+  }
+}
+
+/**
+ * Compact inverted index over every post, emitted at build time by
+ * app/search-index.json/route.ts so list pages don't ship post bodies. Prose
+ * is only kept as term positions; documents carry headings and snippets.
+ */
+export function buildSearchIndex(posts: Post[]): SearchIndex {
+  const documents: SearchIndex["documents"] = [];
+  const terms = new Map<string, number[][]>();
+
+  posts.forEach((post, docIndex) => {
+    const tree = parseMarkdown(post.content);
+    const headings = getHeadings(tree).filter((heading) => heading.depth <= 3);
+    const collected: CollectedText = { sections: [{ id: null, heading: "", paragraphs: [] }], code: [] };
+    collectText(tree, collected);
+
+    const weights = new Map<string, number>();
+    const positions = new Map<string, number[]>();
+    let position = 0;
+    const sections = collected.sections.flatMap<SearchSection>((section) => {
+      const start = position;
+      for (const paragraph of section.paragraphs) {
+        for (const [term, at] of tokenizeWithPositions(paragraph, position)) {
+          weights.set(term, (weights.get(term) ?? 0) + FIELD_WEIGHTS.body);
+          const termPositions = positions.get(term) ?? [];
+          termPositions.push(at);
+          positions.set(term, termPositions);
+        }
+        // Skip a position between paragraphs so phrases don't match across them
+        position += splitWords(paragraph).length + 1;
+      }
+      if (!section.heading && section.paragraphs.length === 0) return [];
+      const snippet = toSnippet(section.paragraphs.join(" "));
+      return [{ id: section.id, heading: section.heading, snippet, start }];
+    });
+
+    documents.push({
+      slug: post.slug,
+      title: post.title,
+      category: post.category,
+      tags: post.tags.map((tag) => tag.name),
+      sections,
+    });
+
+    addTerms(weights, post.title, FIELD_WEIGHTS.title);
+    addTerms(weights, [post.category, ...post.tags.map((tag) => tag.name)].join(" "), FIELD_WEIGHTS.taxonomy);
+    addTerms(weights, headings.map((heading) => heading.text).join(" "), FIELD_WEIGHTS.heading);
+    addTerms(weights, collected.code.join(" "), FIELD_WEIGHTS.code);
+
+    weights.forEach((weight, term) => {
+      const postings = terms.get(term) ?? [];
+      const termPositions = positions.get(term) ?? [];
+      const gaps = termPositions.map((at, i) => at - (termPositions[i - 1] ?? 0));
+      postings.push([docIndex, Math.round(weight * 10) / 10, ...gaps]);
+      terms.set(term, postings);
+    });
+  });
+
+  return { version: SEARCH_INDEX_VERSION, documents, terms: Object.fromEntries(terms) };
+}
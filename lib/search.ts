@@ -0,0 +1,383 @@
+/**
+ * Search helpers shared by the build-time index (lib/search-index.ts) and the
+ * browser. Both sides must tokenize identically, so everything in here stays
+ * free of Node APIs.
+ */
+
+export const SEARCH_INDEX_PATH = "/search-index.json";
+export const SEARCH_INDEX_VERSION = 3;
+
+export interface SearchDocument {
+  slug: string;
+  title: string;
+  category: string;
+  tags: string[];
+  /** One entry per heading, used to link and preview results. */
+  sections: SearchSection[];
+}
+
+export interface SearchSection {
+  /** Anchor of the heading; `null` for the prose before the first heading. */
+  id: string | null;
+  heading: string;
+  /** The opening words of the section's prose, shown under matching results. */
+  snippet: string;
+  /** Position of the section's first word in the document's prose. */
+  start: number;
+}
+
+export interface SearchIndex {
+  version: number;
+  documents: SearchDocument[];
+  /**
+   * Postings per stemmed term, one `[docIndex, weight, ...positions]` per
+   * document. `weight` is the term frequency with field weights applied;
+   * `positions` are word offsets into the document's prose, for phrase queries,
+   * each stored as the gap from the previous one to keep the numbers short.
+   */
+  terms: Record<string, number[][]>;
+}
+
+const STOP_WORDS = new Set(
+  (
+    "a an and are as at be but by for from has have how if in into is it its of on or " +
+    "so than that the their then there these they this to was we what when which who " +
+    "why will with you your"
+  ).split(" ")
+);
+
+function stripDoubleConsonant(stem: string): string {
+  return /([^aeiouylsz])\1$/.test(stem) ? stem.slice(0, -1) : stem;
+}
+
+/**
+ * A deliberately small suffix stripper: it only needs to map "indexes",
+ * "indexing" and "indexed" onto the same term, not produce real words.
+ */
+export function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+
+  let result = word;
+  if (result.endsWith("ies") && result.length > 4) result = `${result.slice(0, -3)}y`;
+  else if (result.endsWith("sses")) result = result.slice(0, -2);
+  else if (/(?:x|z|ch|sh|ss)es$/.test(result)) result = result.slice(0, -2);
+  else if (/[^su]s$/.test(result) && !result.endsWith("is")) result = result.slice(0, -1);
+
+  if (result.endsWith("ing") && result.length > 5) result = stripDoubleConsonant(result.slice(0, -3));
+  else if (result.endsWith("ed") && result.length > 4) result = stripDoubleConsonant(result.slice(0, -2));
+  else if (result.endsWith("ly") && result.length > 4) result = result.slice(0, -2);
+
+  if (result.endsWith("ation") && result.length > 7) result = result.slice(0, -3);
+  if (result.endsWith("e") && result.length > 4) result = result.slice(0, -1);
+
+  return result;
+}
+
+/** Lowercased words of `text`, stop words included. */
+export function splitWords(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+export function tokenize(text: string): string[] {
+  return splitWords(text)
+    .filter((word) => !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+/**
+ * `tokenize`, keeping each term's word offset counted from `start`. Stop words
+ * are dropped but still take up a position, so phrases keep their gaps.
+ */
+export function tokenizeWithPositions(text: string, start = 0): [string, number][] {
+  return splitWords(text).flatMap((word, i): [string, number][] =>
+    STOP_WORDS.has(word) ? [] : [[stem(word), start + i]]
+  );
+}
+
+// Terms like "constructor" must not resolve to Object.prototype members
+function getPostings(index: SearchIndex, term: string): number[][] {
+  return Object.hasOwn(index.terms, term) ? index.terms[term] : [];
+}
+
+export interface ParsedQuery {
+  /** Lowercased words in query order, without stop words unless there is nothing else. */
+  words: string[];
+  /** Quoted phrases as word lists. */
+  phrases: string[][];
+  /** Whether the query is made only of stop words, which the index doesn't hold. */
+  onlyStopWords: boolean;
+}
+
+export function parseQuery(query: string): ParsedQuery {
+  const phrases = Array.from(query.matchAll(/"([^"]+)"/g), (match) => splitWords(match[1])).filter(
+    (phrase) => phrase.length > 0
+  );
+  const rawWords = splitWords(query.replace(/"/g, " "));
+  const queryWords = rawWords.filter((word) => !STOP_WORDS.has(word));
+  const onlyStopWords = queryWords.length === 0 && rawWords.length > 0;
+  return { words: Array.from(new Set(onlyStopWords ? rawWords : queryWords)), phrases, onlyStopWords };
+}
+
+// Optimal string alignment distance: Levenshtein plus adjacent transpositions,
+// which covers the most common typos ("tranaction", "idempotnecy").
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  const rows: number[][] = [Array.from({ length: b.length + 1 }, (_, j) => j)];
+  for (let i = 1; i <= a.length; i++) {
+    rows[i] = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, rows[i - 2][j - 2] + 1);
+      }
+      rows[i][j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+  }
+  return rows[a.length][b.length];
+}
+
+function allowedTypos(term: string): number {
+  if (term.length < 4) return 0;
+  return term.length < 8 ? 1 : 2;
+}
+
+// Exact terms count fully; prefixes and typo corrections count for less
+const PREFIX_FACTOR = 0.8;
+const TYPO_FACTOR = 0.6;
+
+/** Index terms a query word stands for, each with how much a hit on it counts. */
+function expandWord(index: SearchIndex, word: string, isLast: boolean): Map<string, number> {
+  const term = stem(word);
+  const keys = Object.keys(index.terms);
+  const variants = new Map<string, number>();
+  if (Object.hasOwn(index.terms, term)) variants.set(term, 1);
+
+  if (isLast && word.length >= 2) {
+    for (const key of keys) {
+      if (key !== term && key.startsWith(word)) variants.set(key, PREFIX_FACTOR);
+    }
+  }
+  // Only guess at typos when the word matches nothing as written
+  if (variants.size === 0) {
+    const typos = allowedTypos(term);
+    for (const key of keys) {
+      if (typos > 0 && editDistance(term, key, typos) <= typos) variants.set(key, TYPO_FACTOR);
+    }
+  }
+  return variants;
+}
+
+function containsPhrase(text: string, phrase: string[]): boolean {
+  return ` ${splitWords(text).join(" ")} `.includes(` ${phrase.join(" ")} `);
+}
+
+function decodePositions(gaps: number[]): number[] {
+  let position = 0;
+  return gaps.map((gap) => (position += gap));
+}
+
+function getPositions(index: SearchIndex, term: string, doc: number): number[] {
+  const posting = getPostings(index, term).find(([postingDoc]) => postingDoc === doc);
+  return posting ? decodePositions(posting.slice(2)) : [];
+}
+
+/** Prose positions where `phrase` starts in a document, read off the postings. */
+function findPhrase(index: SearchIndex, doc: number, phrase: string[]): number[] {
+  const [first, ...rest] = tokenizeWithPositions(phrase.join(" "));
+  if (!first) return [];
+  const following = rest.map(([term, offset]) => ({
+    positions: new Set(getPositions(index, term, doc)),
+    gap: offset - first[1],
+  }));
+  return getPositions(index, first[0], doc).filter((start) =>
+    following.every(({ positions, gap }) => positions.has(start + gap))
+  );
+}
+
+// Sections are stored in order, so the last one starting at or before `position` holds it
+function findSection(sections: SearchSection[], position: number): SearchSection | undefined {
+  return sections.findLast((section) => section.start <= position);
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchMatch {
+  slug: string;
+  score: number;
+  /** Heading anchor closest to the best match, if it is inside the body. */
+  anchor: string | null;
+  /** Body text around the best match, split into highlighted and plain runs. */
+  snippet: HighlightSegment[] | null;
+}
+
+function highlight(text: string, isMatch: (word: string) => boolean): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let last = 0;
+  for (const found of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    if (!isMatch(found[0].toLowerCase())) continue;
+    const start = found.index ?? 0;
+    if (start > last) segments.push({ text: text.slice(last, start), match: false });
+    segments.push({ text: found[0], match: true });
+    last = start + found[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), match: false });
+  return segments;
+}
+
+// Stop words aren't indexed, so a query made only of them is matched against
+// the titles, headings and snippets stored with each document instead
+function searchText(index: SearchIndex, { words: queryWords, phrases }: ParsedQuery): SearchMatch[] {
+  const matchesText = (text: string) => {
+    const textWords = new Set(splitWords(text));
+    return (
+      queryWords.every((word) => textWords.has(word)) &&
+      phrases.every((phrase) => containsPhrase(text, phrase))
+    );
+  };
+  const isMatch = (word: string) => queryWords.includes(word);
+
+  const results = index.documents.flatMap<SearchMatch>((document) => {
+    const inTitle = matchesText(document.title);
+    const section = document.sections.find((candidate) =>
+      matchesText(`${candidate.heading} ${candidate.snippet}`)
+    );
+    if (!inTitle && !section) return [];
+    return [
+      {
+        slug: document.slug,
+        score: inTitle ? 2 : 1,
+        anchor: section?.id ?? null,
+        snippet: section ? highlight(section.snippet || section.heading, isMatch) : null,
+      },
+    ];
+  });
+  return results.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Ranked search over the index. Every query word must match (exactly, as a
+ * prefix of the last word, or within a typo or two), and every quoted phrase
+ * must appear in the title, a heading or, going by the term positions, the
+ * prose. Title and heading hits weigh more because the index stores
+ * field-weighted frequencies, and each phrase occurrence adds to the score.
+ */
+export function searchIndex(index: SearchIndex, query: string): SearchMatch[] {
+  const parsed = parseQuery(query);
+  if (parsed.onlyStopWords) return searchText(index, parsed);
+
+  const { words: queryWords, phrases } = parsed;
+  if (queryWords.length === 0) return [];
+
+  const documentCount = index.documents.length;
+  const expansions = queryWords.map((word, i) =>
+    expandWord(index, word, i === queryWords.length - 1 && !query.trimEnd().endsWith('"'))
+  );
+
+  const scores = new Map<number, number>();
+  // Where each query word was found in a document's prose, keyed by document
+  const wordPositions = new Map<number, number[][]>();
+  expansions.forEach((variants, i) => {
+    const best = new Map<number, number>();
+    variants.forEach((factor, term) => {
+      const postings = getPostings(index, term);
+      const idf = Math.log(1 + documentCount / postings.length);
+      for (const [doc, weight, ...gaps] of postings) {
+        const score = idf * Math.log(1 + weight) * factor;
+        best.set(doc, Math.max(best.get(doc) ?? 0, score));
+
+        const found = wordPositions.get(doc) ?? queryWords.map(() => []);
+        found[i].push(...decodePositions(gaps));
+        wordPositions.set(doc, found);
+      }
+    });
+    // AND semantics: drop documents missing this word
+    if (i === 0) {
+      best.forEach((score, doc) => scores.set(doc, score));
+    } else {
+      scores.forEach((score, doc) => {
+        const hit = best.get(doc);
+        if (hit === undefined) scores.delete(doc);
+        else scores.set(doc, score + hit);
+      });
+    }
+  });
+
+  const matchedTerms = new Set(expansions.flatMap((variants) => Array.from(variants.keys())));
+  const isMatch = (word: string) => !STOP_WORDS.has(word) && matchedTerms.has(stem(word));
+
+  const results: SearchMatch[] = [];
+  scores.forEach((score, doc) => {
+    const document = index.documents[doc];
+    const inTitle = phrases.length > 0 && phrases.every((phrase) => containsPhrase(document.title, phrase));
+
+    const phraseStarts: number[] = [];
+    const phraseHeadings = new Set<SearchSection>();
+    for (const phrase of phrases) {
+      const starts = findPhrase(index, doc, phrase);
+      const headings = document.sections.filter((section) => containsPhrase(section.heading, phrase));
+      if (starts.length === 0 && headings.length === 0 && !containsPhrase(document.title, phrase)) return;
+      phraseStarts.push(...starts);
+      headings.forEach((section) => phraseHeadings.add(section));
+    }
+
+    // Sections tally the distinct query words in their heading and prose; a
+    // phrase inside a section counts as a hit on every word
+    const sectionHits = new Map<SearchSection, Set<number>>();
+    const addHit = (section: SearchSection | undefined, word: number) => {
+      if (!section) return;
+      const hits = sectionHits.get(section) ?? new Set<number>();
+      hits.add(word);
+      sectionHits.set(section, hits);
+    };
+    for (const section of document.sections) {
+      const headingTerms = splitWords(section.heading).map(stem);
+      expansions.forEach((variants, i) => {
+        if (phraseHeadings.has(section) || headingTerms.some((term) => variants.has(term))) {
+          addHit(section, i);
+        }
+      });
+    }
+    if (phrases.length > 0) {
+      for (const start of phraseStarts) {
+        queryWords.forEach((_, i) => addHit(findSection(document.sections, start), i));
+      }
+    } else {
+      wordPositions.get(doc)?.forEach((positions, i) => {
+        for (const position of positions) addHit(findSection(document.sections, position), i);
+      });
+    }
+
+    let bestSection: SearchSection | null = null;
+    let bestHits = 0;
+    for (const [section, hits] of sectionHits) {
+      if (hits.size > bestHits) {
+        bestHits = hits.size;
+        bestSection = section;
+      }
+    }
+
+    // Boost by the share of query words found in the title, and for each phrase occurrence
+    const titleTerms = splitWords(document.title).map(stem);
+    const titleHits = expansions.filter((variants) =>
+      titleTerms.some((term) => variants.has(term))
+    ).length;
+    const titleBoost = (1 + titleHits / queryWords.length) * (inTitle ? 2 : 1);
+    const phraseBoost = 1 + Math.log(1 + phraseStarts.length + phraseHeadings.size);
+    results.push({
+      slug: document.slug,
+      score: score * titleBoost * (phrases.length > 0 ? phraseBoost : 1),
+      anchor: bestSection?.id ?? null,
+      snippet: bestSection ? highlight(bestSection.snippet || bestSection.heading, isMatch) : null,
+    });
+  });
+
+  return results.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,77 @@
+import type { LucideIcon } from "lucide-react";
+import { getDefaultAuthor, getLinkIcon, type Author, type AuthorLink } from "@/lib/authors";
+
+/**
+ * Facts about the site that metadata, structured data, feeds and the layout
+ * all repeat. Keeping them in one place means `generateMetadata` and the
+ * JSON-LD on the same page can't disagree.
+ *
+ * The base URL comes from `NEXT_PUBLIC_SITE_URL` when set. Otherwise Vercel
+ * preview deployments use their own deployment URL, so absolute links on a
+ * preview point back at that preview, and everything else uses the
+ * production domain. Both variables are `NEXT_PUBLIC_` so client components
+ * resolve the same URL as the server.
+ */
+const PRODUCTION_URL = "https://amrmubarak.com";
+
+export interface SocialLink extends AuthorLink {
+  icon: LucideIcon;
+}
+
+export interface SiteConfig {
+  url: string;
+  /** `url` without the scheme, for display. */
+  domain: string;
+  name: string;
+  title: string;
+  /** One-line blurb for the footer. */
+  tagline: string;
+  description: string;
+  language: string;
+  /** The site owner, from `content/authors.json`. */
+  author: Author;
+  /** The owner's profile links, with icons. */
+  socials: SocialLink[];
+  feed: {
+    title: string;
+    description: string;
+    /** `FEED_CONTENT=summary` limits entries to the excerpt; full post HTML otherwise. */
+    content: "full" | "summary";
+  };
+}
+
+function getSiteUrl(): string {
+  const vercelUrl =
+    process.env.NEXT_PUBLIC_VERCEL_ENV === "preview" && process.env.NEXT_PUBLIC_VERCEL_URL
+      ? `https://${process.env.NEXT_PUBLIC_VERCEL_URL}`
+      : null;
+  return (process.env.NEXT_PUBLIC_SITE_URL || vercelUrl || PRODUCTION_URL).replace(/\/+$/, "");
+}
+
+const url = getSiteUrl();
+const author = getDefaultAuthor();
+const title = "Amr Mubarak — Thoughts on Engineering";
+const description =
+  "Technical writing on distributed systems, databases, and software engineering";
+
+export const siteConfig: SiteConfig = {
+  url,
+  domain: new URL(url).host,
+  name: "Amr Mubarak",
+  title,
+  tagline: "Thoughts on distributed systems, databases, and software engineering.",
+  description,
+  language: "en-US",
+  author,
+  socials: author.links.map((link) => ({ ...link, icon: getLinkIcon(link.url) })),
+  feed: {
+    title,
+    description,
+    content: process.env.FEED_CONTENT === "summary" ? "summary" : "full",
+  },
+};
+
+/** Resolves a site-relative path such as `/blog/wal` against the site URL. */
+export function absoluteUrl(path = ""): string {
+  return `${siteConfig.url}${path}`;
+}
@@ -0,0 +1,137 @@
+import type { MetadataRoute } from "next";
+import { getAllPosts, isCrossPost, type Post } from "@/lib/posts";
+import { getCategory } from "@/lib/categories";
+import { getAuthorHref } from "@/lib/authors";
+import { getBlogPageHref, getPageCount, getPageSize } from "@/lib/pagination";
+import { siteConfig } from "@/lib/site";
+
+const siteUrl = siteConfig.url;
+
+/** The sitemap protocol caps a single file at 50,000 URLs. */
+export const SITEMAP_URL_LIMIT = 50_000;
+
+type SitemapEntry = MetadataRoute.Sitemap[number];
+
+function latestUpdate(posts: Post[]): Date | undefined {
+  return posts.length > 0 ? new Date(Math.max(...posts.map((post) => post.updatedAt))) : undefined;
+}
+
+function groupBy(posts: Post[], keys: (post: Post) => string[]): Map<string, Post[]> {
+  const groups = new Map<string, Post[]>();
+  for (const post of posts) {
+    for (const key of keys(post)) groups.set(key, [...(groups.get(key) ?? []), post]);
+  }
+  return groups;
+}
+
+/**
+ * Every public URL on the site. Only published posts count, even on preview
+ * deployments, and list pages take the `lastModified` of their newest change.
+ * Posts with a `canonicalUrl` elsewhere are left out.
+ */
+export function getSitemapEntries(): SitemapEntry[] {
+  const posts = getAllPosts({ includeUnpublished: false });
+  const lastModified = latestUpdate(posts);
+
+  const staticPages: SitemapEntry[] = [
+    { url: siteUrl, lastModified, changeFrequency: "weekly", priority: 1 },
+    { url: `${siteUrl}/blog`, lastModified, changeFrequency: "weekly", priority: 0.9 },
+    { url: `${siteUrl}/archive`, lastModified, changeFrequency: "weekly", priority: 0.6 },
+    { url: `${siteUrl}/about`, changeFrequency: "yearly", priority: 0.5 },
+  ];
+
+  const pageSize = getPageSize();
+  const blogPages: SitemapEntry[] = Array.from(
+    { length: getPageCount(posts.length, pageSize) - 1 },
+    (_, i) => ({
+      url: `${siteUrl}${getBlogPageHref(i + 2)}`,
+      lastModified: latestUpdate(posts.slice((i + 1) * pageSize, (i + 2) * pageSize)),
+      changeFrequency: "weekly",
+      priority: 0.4,
+    })
+  );
+
+  // Cross-posts send search engines to the original; listing them would contradict that
+  const postPages: SitemapEntry[] = posts.filter((post) => !isCrossPost(post)).map((post) => ({
+    url: `${siteUrl}/blog/${post.slug}`,
+    lastModified: new Date(post.updatedAt),
+    changeFrequency: "monthly",
+    priority: 0.8,
+  }));
+
+  const categoryPages = Array.from(groupBy(posts, (post) => [post.category])).flatMap(
+    ([name, categoryPosts]): SitemapEntry[] => {
+      const category = getCategory(name);
+      if (!category) return [];
+      return [
+        {
+          url: `${siteUrl}/blog/category/${category.slug}`,
+          lastModified: latestUpdate(categoryPosts),
+          changeFrequency: "weekly",
+          priority: 0.6,
+        },
+      ];
+    }
+  );
+
+  const tagPages = Array.from(
+    groupBy(posts, (post) => post.tags.map((tag) => tag.slug)),
+    ([slug, tagPosts]): SitemapEntry => ({
+      url: `${siteUrl}/tags/${slug}`,
+      lastModified: latestUpdate(tagPosts),
+      changeFrequency: "weekly",
+      priority: 0.4,
+    })
+  );
+
+  const seriesPages = Array.from(
+    groupBy(posts, (post) => (post.series ? [post.series.slug] : [])),
+    ([slug, seriesPosts]): SitemapEntry => ({
+      url: `${siteUrl}/series/${slug}`,
+      lastModified: latestUpdate(seriesPosts),
+      changeFrequency: "monthly",
+      priority: 0.5,
+    })
+  );
+
+  const authorPages = Array.from(
+    groupBy(posts, (post) => post.authors),
+    ([id, authorPosts]): SitemapEntry => ({
+      url: `${siteUrl}${getAuthorHref(id)}`,
+      lastModified: latestUpdate(authorPosts),
+      changeFrequency: "monthly",
+      priority: 0.4,
+    })
+  );
+
+  return [
+    ...staticPages,
+    ...blogPages,
+    ...postPages,
+    ...categoryPages,
+    ...seriesPages,
+    ...tagPages,
+    ...authorPages,
+  ];
+}
+
+/** How many files the URLs need; more than one splits the sitemap behind an index. */
+export function getSitemapCount(): number {
+  return Math.max(1, Math.ceil(getSitemapEntries().length / SITEMAP_URL_LIMIT));
+}
+
+/** URL of the nth file of a split sitemap, as served by `app/sitemaps/sitemap.ts`. */
+export function getSitemapUrl(id: number): string {
+  return `${siteUrl}/sitemaps/sitemap/${id}.xml`;
+}
+
+/** Served by `app/sitemap.ts` while every URL fits in one file. */
+export const SITEMAP_URL = `${siteUrl}/sitemap.xml`;
+
+/** Served by `app/sitemap-index.xml/route.ts` once the sitemap is split. */
+export const SITEMAP_INDEX_URL = `${siteUrl}/sitemap-index.xml`;
+
+/** The sitemap robots.txt points at: the index when there is one, `/sitemap.xml` otherwise. */
+export function getRootSitemapUrl(): string {
+  return getSitemapCount() > 1 ? SITEMAP_INDEX_URL : SITEMAP_URL;
+}
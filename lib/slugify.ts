@@ -0,0 +1,13 @@
+/**
+ * URL-safe slug for taxonomy names and headings: "Write-Ahead Logging (WAL)"
+ * becomes "write-ahead-logging-wal".
+ */
+export function slugify(value: string): string {
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
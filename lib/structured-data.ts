@@ -0,0 +1,122 @@
+import { getCanonicalUrl, type Post } from "@/lib/posts";
+import { getCategory } from "@/lib/categories";
+import { getAuthorHref, getAuthors, type Author } from "@/lib/authors";
+import { absoluteUrl, siteConfig } from "@/lib/site";
+
+/**
+ * schema.org JSON-LD for search engines, built from the same `Post` model and
+ * site config as the page metadata. Render the objects with `<JsonLd>`.
+ */
+export type JsonLd = Record<string, unknown>;
+
+const CONTEXT = "https://schema.org";
+
+const websiteId = absoluteUrl("/#website");
+
+// Other objects point at a person by `@id` instead of repeating the profile
+function getPersonId(author: Author): string {
+  return `${absoluteUrl(getAuthorHref(author.id))}#person`;
+}
+
+function toIsoString(timestamp: number): string {
+  return new Date(timestamp).toISOString();
+}
+
+/** A full profile, for the author's own page; the site owner by default. */
+export function getPersonJsonLd(author: Author = siteConfig.author): JsonLd {
+  return {
+    "@context": CONTEXT,
+    "@type": "Person",
+    "@id": getPersonId(author),
+    name: author.name,
+    jobTitle: author.jobTitle,
+    description: author.bio,
+    url: absoluteUrl(getAuthorHref(author.id)),
+    image: absoluteUrl(author.avatar),
+    sameAs: author.links.map((link) => link.url),
+  };
+}
+
+/** The site itself, with a `SearchAction` pointing at `/search?q=`. */
+export function getWebSiteJsonLd(): JsonLd {
+  return {
+    "@context": CONTEXT,
+    "@type": "WebSite",
+    "@id": websiteId,
+    url: absoluteUrl(),
+    name: siteConfig.title,
+    description: siteConfig.description,
+    inLanguage: siteConfig.language,
+    author: { "@id": getPersonId(siteConfig.author) },
+    potentialAction: {
+      "@type": "SearchAction",
+      target: {
+        "@type": "EntryPoint",
+        urlTemplate: `${absoluteUrl("/search")}?q={search_term_string}`,
+      },
+      "query-input": "required name=search_term_string",
+    },
+  };
+}
+
+export function getBlogPostingJsonLd(post: Post): JsonLd {
+  const url = absoluteUrl(`/blog/${post.slug}`);
+
+  return {
+    "@context": CONTEXT,
+    "@type": "BlogPosting",
+    "@id": `${url}#article`,
+    url,
+    mainEntityOfPage: getCanonicalUrl(post),
+    headline: post.title,
+    description: post.excerpt,
+    // Served by app/blog/[slug]/opengraph-image.tsx
+    image: `${url}/opengraph-image`,
+    datePublished: toIsoString(post.timestamp),
+    dateModified: toIsoString(post.updatedAt),
+    author: getAuthors(post.authors).map((author) => ({
+      "@type": "Person",
+      "@id": getPersonId(author),
+      name: author.name,
+      url: absoluteUrl(getAuthorHref(author.id)),
+    })),
+    publisher: { "@id": getPersonId(siteConfig.author) },
+    isPartOf: { "@id": websiteId },
+    inLanguage: siteConfig.language,
+    articleSection: post.category,
+    keywords: post.tags.map((tag) => tag.name),
+    wordCount: post.wordCount,
+    timeRequired: `PT${post.readingMinutes}M`,
+  };
+}
+
+export interface Breadcrumb {
+  name: string;
+  /** Site-relative path. */
+  path: string;
+}
+
+export function getBreadcrumbJsonLd(items: Breadcrumb[]): JsonLd {
+  return {
+    "@context": CONTEXT,
+    "@type": "BreadcrumbList",
+    itemListElement: items.map((item, i) => ({
+      "@type": "ListItem",
+      position: i + 1,
+      name: item.name,
+      item: absoluteUrl(item.path),
+    })),
+  };
+}
+
+/** Home → Blog → Category → Post; the category step is skipped if it isn't registered. */
+export function getPostBreadcrumbs(post: Post): Breadcrumb[] {
+  const category = getCategory(post.category);
+
+  return [
+    { name: "Home", path: "/" },
+    { name: "Blog", path: "/blog" },
+    ...(category ? [{ name: category.name, path: `/blog/category/${category.slug}` }] : []),
+    { name: post.title, path: `/blog/${post.slug}` },
+  ];
+}
@@ -0,0 +1,29 @@
+import { getHeadings, parseMarkdown } from "@/lib/markdown";
+
+export interface TocItem {
+  id: string;
+  text: string;
+  level: 2 | 3;
+  children: TocItem[];
+}
+
+/**
+ * Builds the "On this page" tree from a post body: `##` headings at the top
+ * level with their `###` subsections nested underneath.
+ */
+export function getTableOfContents(markdown: string): TocItem[] {
+  const items: TocItem[] = [];
+
+  for (const heading of getHeadings(parseMarkdown(markdown))) {
+    if (heading.depth === 2) {
+      items.push({ id: heading.id, text: heading.text, level: 2, children: [] });
+    } else if (heading.depth === 3) {
+      const item: TocItem = { id: heading.id, text: heading.text, level: 3, children: [] };
+      const parent = items.at(-1);
+      // A subsection before the first `##` has nowhere to nest
+      if (parent) parent.children.push(item);
+      else items.push(item);
+    }
+  }
+  return items;
+}